@@ -0,0 +1,90 @@
+import { ANSI } from '../util/ansi.js';
+import { formatDuration, now } from '../util/time.js';
+import type { LiveWidget } from './region.js';
+
+export type ProgressBarOptions = {
+    /** The amount that counts as complete. */
+    total: number;
+    label?: string;
+    /** Width of the bar in characters. Defaults to 24. */
+    width?: number;
+    /** Characters for the complete and incomplete parts of the bar. Defaults to `█` and `░`. */
+    complete?: string;
+    incomplete?: string;
+    /** Unit shown after the rate, e.g. `files` for "12.0 files/s". */
+    unit?: string;
+};
+
+/**
+ * A progress bar with percentage, rate and estimated time remaining, shown in a {@link LiveRegion}.
+ * Once the total is reached, it is printed above the region.
+ * @example
+ * const bar = region.add(new ProgressBar({ total: 200, label: 'Resizing', unit: 'images' }));
+ * bar.tick(); // Resizing ▕█░░░░░░░░░░░░░░░░░░░░░░░▏  1% 2/200 4.1 images/s ETA 48.000s
+ */
+export class ProgressBar implements LiveWidget {
+    total: number;
+    current = 0;
+    label: string;
+    done = false;
+    readonly width: number;
+    readonly complete: string;
+    readonly incomplete: string;
+    readonly unit?: string;
+
+    #started = now();
+
+    constructor(options: ProgressBarOptions) {
+        this.total = options.total;
+        this.label = options.label ?? '';
+        this.width = options.width ?? 24;
+        this.complete = options.complete ?? '█';
+        this.incomplete = options.incomplete ?? '░';
+        this.unit = options.unit;
+    }
+
+    /** Fraction of the total that is complete, between 0 and 1. */
+    get ratio(): number {
+        return this.total > 0 ? Math.min(1, Math.max(0, this.current / this.total)) : 1;
+    }
+
+    /** Units completed per second since the bar was created. */
+    get rate(): number {
+        const seconds = (now() - this.#started) / 1000;
+        return seconds > 0 ? this.current / seconds : 0;
+    }
+
+    /** Estimated milliseconds until the total is reached, or `undefined` while there is no rate yet. */
+    get eta(): number | undefined {
+        const rate = this.rate;
+        return rate > 0 ? Math.max(0, this.total - this.current) / rate * 1000 : undefined;
+    }
+
+    tick(amount: number = 1) {
+        this.update(this.current + amount);
+    }
+
+    update(current: number, label: string = this.label) {
+        this.current = current;
+        this.label = label;
+        if (this.current >= this.total) {
+            this.done = true;
+        }
+    }
+
+    render(tty: boolean) {
+        const percent = `${Math.floor(this.ratio * 100)}%`.padStart(4);
+        const rate = `${this.rate.toFixed(1)}${this.unit ? ` ${this.unit}` : ''}/s`;
+        const eta = this.done ? formatDuration(now() - this.#started) : this.eta === undefined ? 'ETA -' : `ETA ${formatDuration(this.eta)}`;
+        const stats = `${percent} ${this.current}/${this.total} ${rate} ${eta}`;
+        const label = this.label ? `${this.label} ` : '';
+
+        if (!tty) {
+            return `${label}${stats}`;
+        }
+
+        const filled = Math.round(this.ratio * this.width);
+        const bar = `${ANSI.FG.Green}${this.complete.repeat(filled)}${ANSI.FG.BrightBlack}${this.incomplete.repeat(this.width - filled)}${ANSI.FG.Default}`;
+        return `${label}▕${bar}▏${stats}`;
+    }
+}
@@ -0,0 +1,240 @@
+import { ANSI } from '../util/ansi.js';
+import { stripAnsi, visibleLength } from '../util/text.js';
+
+/** Anything text can be written to, such as `process.stdout`. */
+export type LiveStream = {
+    write(chunk: string): unknown;
+    isTTY?: boolean;
+    columns?: number;
+};
+
+/**
+ * Something that is shown in a {@link LiveRegion}.
+ * `render` is called on every redraw and may return several lines.
+ * Once `done` is set, the widget's last rendering is printed above the region and the widget is removed.
+ */
+export type LiveWidget = {
+    render(tty: boolean): string;
+    done?: boolean;
+};
+
+export type LiveRegionOptions = {
+    /** Where the region is drawn. Defaults to `process.stdout`, or the console in browsers. */
+    stream?: LiveStream;
+    /** Overrides whether the stream is treated as a terminal that supports cursor movement. */
+    tty?: boolean;
+    /** Milliseconds between redraws on a terminal. Defaults to 80. */
+    interval?: number;
+    /** Milliseconds between plain lines when the stream is not a terminal. Defaults to 2000. */
+    plainInterval?: number;
+};
+
+const consoleStream: LiveStream = {
+    write: (chunk: string) => console.log(chunk.replace(/\n$/, '')),
+};
+
+let activeRegion: LiveRegion | undefined;
+
+/** The region currently drawn on a terminal, if any. Console output is printed above it. */
+export const getActiveLiveRegion = (): LiveRegion | undefined => activeRegion;
+
+/**
+ * A block of lines pinned to the bottom of the terminal and redrawn in place,
+ * holding spinners, progress bars and status lines. Lines printed with `print()`,
+ * including everything logged to the console meanwhile, appear above it.
+ *
+ * When the stream is not a terminal, nothing is redrawn; instead, widgets whose text changed
+ * are written as plain lines at most every `plainInterval` milliseconds.
+ * @example
+ * const region = new LiveRegion();
+ * const bar = region.add(new ProgressBar({ total: files.length, label: 'Uploading' }));
+ * for (const file of files) {
+ *     await upload(file);
+ *     logger.ok("Uploaded", file);
+ *     bar.tick();
+ * }
+ * region.stop();
+ */
+export class LiveRegion {
+    readonly stream: LiveStream;
+    readonly tty: boolean;
+    readonly interval: number;
+    readonly plainInterval: number;
+
+    #widgets: LiveWidget[] = [];
+    /** Number of terminal rows drawn by the last redraw. */
+    #height = 0;
+    /** What the last redraw wrote, to skip redraws that would not change anything. */
+    #frame = '';
+    /** Last plain line written for each widget when not on a terminal. */
+    #plain = new WeakMap<LiveWidget, string>();
+    #timer?: ReturnType<typeof setInterval>;
+    #stopped = false;
+    #restoreCursor = () => this.stream.write(ANSI.CURSOR.show);
+
+    constructor(options: LiveRegionOptions = {}) {
+        this.stream = options.stream ?? (typeof process !== 'undefined' && process.stdout ? process.stdout : consoleStream);
+        this.tty = options.tty ?? !!this.stream.isTTY;
+        this.interval = options.interval ?? 80;
+        this.plainInterval = options.plainInterval ?? 2000;
+    }
+
+    get widgets(): readonly LiveWidget[] {
+        return this.#widgets;
+    }
+
+    /** Adds a widget to the bottom of the region and starts drawing the region if it is not already. */
+    add<T extends LiveWidget>(widget: T): T {
+        this.#widgets.push(widget);
+        this.#start();
+        this.render();
+        return widget;
+    }
+
+    /** Removes a widget without printing it. */
+    remove(widget: LiveWidget) {
+        this.#widgets = this.#widgets.filter(w => w !== widget);
+        this.render();
+    }
+
+    /** Prints lines above the region. */
+    print(text: string) {
+        if (!this.tty || this.#stopped) {
+            this.stream.write(`${this.tty ? text : stripAnsi(text)}\n`);
+            return;
+        }
+        this.stream.write(`${this.#clear()}${text}\n${this.#draw()}`);
+    }
+
+    /** Redraws the region right away, instead of waiting for the next interval. */
+    render() {
+        if (this.#stopped) {
+            return;
+        }
+        if (!this.tty) {
+            this.#renderPlain();
+            return;
+        }
+
+        const finished = this.#takeFinished();
+        const lines = this.#lines();
+        if (!finished.length && lines.join('\n') === this.#frame) {
+            return;
+        }
+        const above = finished.map(w => `${w.render(true)}\n`).join('');
+        this.stream.write(`${this.#clear()}${above}${this.#draw(lines)}`);
+    }
+
+    /**
+     * Draws the region one last time and leaves it on screen.
+     * Widgets still running are kept as they are, and the cursor is shown again.
+     */
+    stop() {
+        if (this.#stopped) {
+            return;
+        }
+        this.render();
+
+        this.#stopped = true;
+        clearInterval(this.#timer);
+        this.#timer = undefined;
+        if (activeRegion === this) {
+            activeRegion = undefined;
+        }
+        if (this.tty) {
+            this.stream.write(ANSI.CURSOR.show);
+            if (typeof process !== 'undefined' && process.off) {
+                process.off('exit', this.#restoreCursor);
+            }
+        }
+    }
+
+    #start() {
+        if (this.#timer || this.#stopped) {
+            return;
+        }
+
+        this.#timer = setInterval(() => this.render(), this.tty ? this.interval : this.plainInterval);
+        // a region left running should not keep the process alive
+        (this.#timer as { unref?: () => void }).unref?.();
+
+        if (this.tty) {
+            activeRegion?.stop();
+            activeRegion = this;
+            this.stream.write(ANSI.CURSOR.hide);
+            if (typeof process !== 'undefined' && process.once) {
+                process.once('exit', this.#restoreCursor);
+            }
+        }
+    }
+
+    #takeFinished(): LiveWidget[] {
+        const finished = this.#widgets.filter(w => w.done);
+        if (finished.length) {
+            this.#widgets = this.#widgets.filter(w => !w.done);
+        }
+        return finished;
+    }
+
+    /** Moves the cursor back to the first row of the region and erases it. */
+    #clear(): string {
+        const height = this.#height;
+        this.#height = 0;
+        return height ? `\r${ANSI.CURSOR.up(height)}${ANSI.ERASE.down}` : '';
+    }
+
+    #lines(): string[] {
+        return this.#widgets.flatMap(w => w.render(true).split('\n'));
+    }
+
+    #draw(lines: string[] = this.#lines()): string {
+        const columns = this.stream.columns || 80;
+
+        // lines longer than the terminal wrap onto several rows, all of which have to be erased on the next redraw
+        this.#frame = lines.join('\n');
+        this.#height = lines.reduce((rows, line) => rows + Math.max(1, Math.ceil(visibleLength(line) / columns)), 0);
+        return lines.map(line => `${line}\n`).join('');
+    }
+
+    #renderPlain() {
+        for (const widget of this.#takeFinished()) {
+            this.#writePlain(widget);
+        }
+        for (const widget of this.#widgets) {
+            this.#writePlain(widget);
+        }
+    }
+
+    #writePlain(widget: LiveWidget) {
+        const text = stripAnsi(widget.render(false));
+        if (this.#plain.get(widget) === text) {
+            return;
+        }
+        this.#plain.set(widget, text);
+        this.stream.write(`${text}\n`);
+    }
+}
+
+/** A line of text in a {@link LiveRegion}, e.g. for showing what is currently happening. */
+export class StatusLine implements LiveWidget {
+    text: string;
+    done = false;
+
+    constructor(text: string = '') {
+        this.text = text;
+    }
+
+    update(text: string) {
+        this.text = text;
+    }
+
+    /** Prints the line above the region with its current or given text. */
+    finish(text: string = this.text) {
+        this.text = text;
+        this.done = true;
+    }
+
+    render() {
+        return this.text;
+    }
+}
@@ -0,0 +1,75 @@
+import { ANSI } from '../util/ansi.js';
+import type { LiveWidget } from './region.js';
+
+/** Built-in spinner animations, each a list of frames. */
+export const spinnerFrames = {
+    dots: ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'],
+    line: ['-', '\\', '|', '/'],
+    arc: ['◜', '◠', '◝', '◞', '◡', '◟'],
+    bounce: ['⠁', '⠂', '⠄', '⠂'],
+} as const;
+
+export type SpinnerOptions = {
+    /** The name of a built-in animation, or custom frames. Defaults to `dots`. */
+    frames?: keyof typeof spinnerFrames | readonly string[];
+    /** Milliseconds each frame is shown. Defaults to 80. */
+    interval?: number;
+};
+
+/**
+ * An animated spinner followed by a text, shown in a {@link LiveRegion}.
+ * The frame is derived from the current time, so the spinner keeps moving however often the region redraws.
+ * @example
+ * const spinner = region.add(new Spinner("Installing dependencies"));
+ * await install();
+ * spinner.succeed("Installed dependencies");
+ */
+export class Spinner implements LiveWidget {
+    text: string;
+    done = false;
+    readonly frames: readonly string[];
+    readonly interval: number;
+
+    #symbol?: string;
+    #started = Date.now();
+
+    constructor(text: string = '', options: SpinnerOptions = {}) {
+        this.text = text;
+        this.frames = typeof options.frames === 'string' ? spinnerFrames[options.frames] : options.frames ?? spinnerFrames.dots;
+        this.interval = options.interval ?? 80;
+    }
+
+    update(text: string) {
+        this.text = text;
+    }
+
+    /** Stops the spinner, replacing it with a symbol, and prints it above the region. */
+    stop(symbol: string = ' ', text: string = this.text) {
+        this.#symbol = symbol;
+        this.text = text;
+        this.done = true;
+    }
+
+    succeed(text?: string) {
+        this.stop(`${ANSI.FG.Green}✔${ANSI.FG.Default}`, text);
+    }
+
+    fail(text?: string) {
+        this.stop(`${ANSI.FG.Red}✖${ANSI.FG.Default}`, text);
+    }
+
+    warn(text?: string) {
+        this.stop(`${ANSI.FG.Yellow}⚠${ANSI.FG.Default}`, text);
+    }
+
+    render(tty: boolean) {
+        if (this.#symbol !== undefined) {
+            return `${this.#symbol} ${this.text}`;
+        }
+        if (!tty) {
+            return `… ${this.text}`;
+        }
+        const frame = this.frames[Math.floor((Date.now() - this.#started) / this.interval) % this.frames.length];
+        return `${ANSI.FG.Cyan}${frame}${ANSI.FG.Default} ${this.text}`;
+    }
+}
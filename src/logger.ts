@@ -1,36 +1,415 @@
 
 import { ANSI } from './util/ansi.js';
 import { nanoid } from './util/random.js';
+import { formatDuration, formatElapsed, formatTimestamp, now } from './util/time.js';
+import { compileLayout, renderLayout, type LayoutToken } from './util/layout.js';
+import { toLogfmt } from './util/serialize.js';
+import { detectColorLevel, hexToRgb, hslToRgb, type ColorLevel } from './util/color.js';
+import { getFilter, type LogFilter } from './util/filter.js';
+import { getRedactor, type RedactionOptions } from './util/redact.js';
+import { isError, renderError, type ErrorRenderOptions } from './util/errors.js';
+import { inspect, type InspectOptions, type InspectStyles, type InspectTokenType } from './util/inspect.js';
+import { stripAnsi, visibleLength, wrap } from './util/text.js';
+import { colorChars, gradient } from './util/gradient.js';
+import { RingBuffer } from './util/ring.js';
+import { TokenBuckets } from './util/limit.js';
+import { createContextStore } from './util/context.js';
+import { MarkupError, renderMarkup, resolveStyle } from './util/markup.js';
+import { formatEntry, matchesTags, type Transport } from './transports/transport.js';
+import { ConsoleTransport } from './transports/console.js';
+import { HttpTransport } from './transports/http.js';
+
+export { formatEntry, type Transport, type TransportFormat, type TransportFormatter, type TransportOptions } from './transports/transport.js';
+export { ConsoleTransport, detectConsoleRender, type ConsoleRenderMode, type ConsoleTransportOptions } from './transports/console.js';
+export { HttpTransport, HttpTransportError, type HttpTransportOptions } from './transports/http.js';
+export { LiveRegion, StatusLine, getActiveLiveRegion, type LiveRegionOptions, type LiveStream, type LiveWidget } from './live/region.js';
+export { Spinner, spinnerFrames, type SpinnerOptions } from './live/spinner.js';
+export { ProgressBar, type ProgressBarOptions } from './live/progress.js';
+export { formatDuration, formatElapsed, formatTimestamp } from './util/time.js';
+export { compileLayout, renderLayout, type LayoutToken } from './util/layout.js';
+export { safeStringify, toLogfmt } from './util/serialize.js';
+export { parseAnsi, type AnsiSegment, type SgrColor, type SgrState } from './util/sgr.js';
+export { ansiToConsoleArgs, sgrStateToCss } from './util/css.js';
+export { compileFilter, FilterSyntaxError, type LogFilter } from './util/filter.js';
+export { inspect, type InspectOptions, type InspectStyles, type InspectTokenType } from './util/inspect.js';
+export { parseStack, renderError, type ErrorRenderOptions, type StackFrame } from './util/errors.js';
+export { createRedactor, redactionPresets, type RedactionOptions, type RedactionRule, type Redactor } from './util/redact.js';
+export { charWidth, pad, padEnd, padStart, sliceAnsi, stripAnsi, tokenizeAnsi, truncate, visibleLength, wrap, type Alignment, type AnsiToken, type TruncateOptions, type WrapOptions } from './util/text.js';
+export { AnsiHtmlConverter, ansiHtmlStylesheet, ansiToHtml, escapeHtml, type AnsiHtmlMode, type AnsiHtmlOptions } from './util/html.js';
+export { MarkupError, markupToConsoleArgs, markupToHtml, parseMarkup, renderMarkup, resolveStyle, type MarkupElement, type MarkupNode, type MarkupOptions } from './util/markup.js';
+export { borderStyles, box, columns, table, tree, type BorderChars, type BorderStyle, type BoxOptions, type ColumnsOptions, type TableOptions, type TreeOptions } from './util/blocks.js';
+export { detectColorLevel, downgradeAnsi, hexToRgb, hslToRgb, rgbToAnsi16, rgbToAnsi256, rgbToHsl, type ColorLevel } from './util/color.js';
+export { RingBuffer } from './util/ring.js';
+export { TokenBuckets } from './util/limit.js';
+export { createContextStore, type ContextStore } from './util/context.js';
+export { gradient, gradientPresets, gradientScale, type GradientColor, type GradientOptions, type GradientPreset } from './util/gradient.js';
+
+/**
+ * Built-in severity levels, ordered from most to least verbose.
+ * Additional levels can be registered per logger through the `levels` option.
+ */
+export const LogLevels = {
+    trace: 10,
+    debug: 20,
+    info: 30,
+    warn: 40,
+    error: 50,
+    fatal: 60,
+} as const;
+
+export type LogLevel = keyof typeof LogLevels | (string & {});
+
+/**
+ * How log entries are written by transports that do not choose their own format:
+ * - `pretty`: the styled, human readable message
+ * - `json`: one JSON object per line (NDJSON)
+ * - `logfmt`: one line of `key=value` pairs
+ */
+export type OutputFormat = 'pretty' | 'json' | 'logfmt';
+
+export const outputFormats: readonly OutputFormat[] = ['pretty', 'json', 'logfmt'];
 
 export type LoggerRuntimeConfig = {
     autoSpaceBetween: boolean;
     timestampFormat?: string;
     trimBefore?: string;
     trimAfter?: string;
+    /** Sends every entry to a remote endpoint through a built-in {@link HttpTransport}. */
     externalLogging?: ComfyLoggerExternalLoggingOptions;
+    /** Writes every entry to the console through a built-in {@link ConsoleTransport}. */
     console?: boolean;
+    /** Additional outputs, each with its own level, tag filter and format. */
+    transports?: Transport[];
     /**
      * Tags which can be used to categorize loggers.
      * Used for filtering log output.
      */
     tags?: string[];
     logErrorsToConsole?: boolean;
+    /**
+     * Minimum severity a message needs in order to be logged.
+     * Either a level name known to this logger or a raw numeric severity.
+     */
+    level?: LogLevel | number;
+    /** Severity levels known to this logger, mapping each level name to its numeric value. */
+    levels?: Record<string, number>;
+    /**
+     * Output format for the console and any transport without a format of its own.
+     * Defaults to the format set through `--log-format` or `COMFY_LOG_FORMAT`, or `pretty`.
+     */
+    format?: OutputFormat;
+    /**
+     * Color support of this logger's output. ANSI output is downgraded to it, e.g. truecolor to 256 colors, or stripped entirely at `0`.
+     * `auto` uses the globally detected level, see {@link ComfyLoggerSettings.getColorLevel}.
+     */
+    colorLevel?: ColorLevel | 'auto';
+    /**
+     * Censors secrets and personal data before anything is rendered, written to a transport or passed to a listener.
+     * @example
+     * logger.configure({ redact: { paths: ['password', 'headers.authorization'], patterns: ['jwt', 'email'] } });
+     */
+    redact?: RedactionOptions;
+    /** How errors passed to a log call are rendered: stack trace length, Node internals and source lines around the top frame. */
+    errors?: ErrorRenderOptions;
+    /** How objects, arrays, Maps, Sets and other non-string values are rendered: depth, truncation, key order and layout. */
+    inspect?: InspectOptions;
+    /**
+     * Template for each line of pretty output, e.g. `"{timestamp} {level:<5} [{name}] {tags} {message}"`.
+     * Available tokens are `timestamp`, `level`, `name`, `tags`, `message` and `fields`. A token can be padded and aligned to a width
+     * with `{token:<10}` (left), `{token:>10}` (right) or `{token:^10}` (center). Without a layout, only the message is printed.
+     */
+    layout?: string;
+    /** Styles for the layout tokens other than `message`, replacing the defaults in {@link defaultLayoutStyles} one by one. */
+    layoutStyles?: LayoutStyles;
+    /**
+     * How the `{timestamp}` token is rendered:
+     * `local` and `utc` use `timestampFormat`, `iso` is an ISO 8601 string and `elapsed` is the time since the logger module was loaded.
+     * Defaults to `local`.
+     */
+    timestampMode?: 'local' | 'utc' | 'iso' | 'elapsed';
+    /**
+     * Word-wraps long lines. `true` wraps to the width of the terminal, and does nothing when stdout is not a terminal;
+     * a number wraps to that many columns. Continuation lines are indented to where the message starts.
+     * Only lines written to a {@link ConsoleTransport} in the `ansi` or `text` format are wrapped, so files, remote endpoints
+     * and listeners get the lines as they are.
+     */
+    wrap?: boolean | number;
+    /**
+     * Parses inline style markup like `{red.bold Error:}` or `<u>text</u>` in messages, see {@link parseMarkup}.
+     * Styles registered with `class()` can be used by name. Only the message is parsed, never the values logged with it:
+     * printf-style `%s`, `%d`, `%i`, `%f`, `%o`, `%O` and `%j` placeholders in the message are replaced by the arguments that follow it.
+     * Messages with invalid markup, like code with braces in it, are logged as plain text, with a warning the first time.
+     */
+    markup?: boolean;
+    /**
+     * Styles of levels, layout tokens, inspected values and named classes, either one of the built-in {@link themes} or a custom one.
+     * Styles the theme leaves out are taken from the default theme.
+     * @example
+     * logger.configure({ theme: 'light' });
+     * logger.configure({ theme: loadTheme(fs.readFileSync('theme.json', 'utf8')) });
+     */
+    theme?: Theme | ThemeName;
+    /**
+     * Keeps the most recent records in memory, including those filtered out by level or tags, see {@link ComfyLogger.history}.
+     * `true` uses the defaults of {@link HistoryOptions}. Child loggers share their parent's buffer unless they set their own.
+     * @example
+     * logger.configure({ level: 'info', history: { size: 500 } }); // debug records are kept and written when an error is logged
+     */
+    history?: boolean | HistoryOptions;
+    /**
+     * Limits how many messages per second get through, see {@link RateLimitOptions}.
+     * Like sampling and collapsing, this is decided before anything is rendered, so suppressed calls cost almost nothing.
+     * Suppressed calls are counted in {@link ComfyLogger.suppressionMetrics}.
+     * @example
+     * logger.configure({ rateLimit: { rate: 10, burst: 50 } }); // per message template
+     */
+    rateLimit?: RateLimitOptions;
+    /**
+     * Probability from 0 to 1 that a message at a level is logged. Levels that are not listed are always logged.
+     * @example
+     * logger.configure({ sample: { debug: 0.1, trace: 0.01 } });
+     */
+    sample?: Record<string, number>;
+    /**
+     * Collapses identical consecutive calls: the first one is logged, and the repeats are summed up as
+     * `… (repeated 523 times)` once a different message is logged or no repeat came for a while.
+     * Calls count as identical when they have the same level, message and arguments, with objects compared by reference.
+     */
+    collapse?: boolean | CollapseOptions;
 }
 
+/** Styles for the tokens of a layout template. Each style receives the padded text of the token and the record it belongs to. */
+export type LayoutStyles = Partial<Record<Exclude<LayoutToken, 'message'>, (text: string, record: LogRecord) => string>>;
+
+/**
+ * Structured representation of a single log call, captured before any rendering takes place.
+ */
+export type LogRecord = {
+    /** Name of the logger that emitted the record. */
+    name: string;
+    /** Tags of the logger at the time the record was emitted. */
+    tags: string[];
+    /** Milliseconds since the unix epoch. */
+    timestamp: number;
+    level: string;
+    levelValue: number;
+    /** The arguments exactly as they were passed to the log call, without any level styling applied. */
+    args: unknown[];
+    /** The literal parts of a tagged template call, e.g. ``logger.log`a ${b} c` `` gives `["a ", " c"]`. */
+    template?: readonly string[];
+    /** Key/value pairs attached to the record, see {@link fields}, including those of the logger and of `ComfyLogger.runWithContext()`. */
+    fields: Record<string, unknown>;
+};
+
+/**
+ * A log record together with its rendered views.
+ * `output` contains ANSI codes, `stripped` is the same text with all ANSI codes removed.
+ */
+export type LogEntry = LogRecord & {
+    output: string;
+    stripped: string;
+    /**
+     * The message alone, without the level prefix, the layout around it and ANSI codes, and with errors reduced to
+     * `name: message`. Transformers are not applied to it. The structured formats use it as the message.
+     */
+    message: string;
+};
+
+/**
+ * Transforms the rendered message of a record, see `transformBefore()` and `transformAfter()`.
+ * The record gives access to its level, fields and the fields of the enclosing `runWithContext()` call.
+ */
+export type LogTransformer = (buffer: string, record: LogRecord) => string;
+
 export type LoggerEvent = 'log';
-export type LoggerEventListener = (e: { output: string; stripped: string }) => void;
+export type LoggerEventListener = (e: LogEntry) => void;
 export type ComfyLoggerConstructorOptions = Partial<LoggerRuntimeConfig & {
     listeners?: { log: LoggerEventListener[] }
     name?: string;
+    /** Key/value pairs attached to every record the logger emits. */
+    fields?: Record<string, unknown>;
 }>;
 
 export type ComfyLoggerExternalLoggingOptions = {
     url: string;
     headers?: Record<string, string>;
     method?: string;
+    /**
+     * Called when a batch could not be delivered after all retries, and with the number of entries dropped from a full queue,
+     * once per batch rather than for every entry.
+     */
     onError?: (error: any) => void;
+    /** Maximum number of entries sent in a single request. Defaults to 50. */
+    batchSize?: number;
+    /** Milliseconds to wait for more entries before a partial batch is sent. Defaults to 1000. */
+    flushInterval?: number;
+    /** Maximum number of entries held in memory while waiting to be sent. Defaults to 1000. */
+    maxQueueSize?: number;
+    /** Which entries to drop when the queue is full. Defaults to `oldest`. */
+    dropPolicy?: 'oldest' | 'newest';
+    /** How many times a failed request is retried before its batch is given up on. Defaults to 3. */
+    retries?: number;
+    /** Delay before the first retry in milliseconds, doubled on every further attempt. Defaults to 500. */
+    retryDelay?: number;
+    /** Upper bound for the retry delay in milliseconds. Defaults to 30000. */
+    maxRetryDelay?: number;
+    /** Milliseconds after which a request is aborted and counts as failed, so that a hanging endpoint cannot stall `flush()`. Defaults to 10000. */
+    timeout?: number;
+    /**
+     * Sends whatever is still queued when the process is about to exit or receives SIGINT or SIGTERM (Node),
+     * or when the page is hidden (browser, using `navigator.sendBeacon`). Defaults to true.
+     * `process.exit()` leaves no time for requests, so await `logger.flush()` before calling it;
+     * entries that are still queued at that point are reported to `onError` as dropped.
+     */
+    flushOnExit?: boolean;
+    /**
+     * Turns a batch of formatted lines into a request body.
+     * Defaults to a JSON array, with each line embedded as-is for the `json` format and as a string otherwise.
+     */
+    encodeBatch?: (lines: string[]) => string;
+};
+
+export type HistoryOptions = {
+    /** Number of records kept. Defaults to 1000. */
+    size?: number;
+    /**
+     * Logging a record at or above this level first writes the buffered records that were filtered out,
+     * so that the outputs show what led up to it. `false` only writes them on `dumpHistory()`. Defaults to `error`.
+     */
+    dumpOn?: LogLevel | number | false;
+};
+
+export type RateLimitOptions = {
+    /** Average number of messages per second that are let through. */
+    rate: number;
+    /** Number of messages that can be logged in a quick burst before the rate applies. Defaults to `rate`. */
+    burst?: number;
+    /**
+     * What gets a limit of its own:
+     * - `template`: every level and message template, like `"Retrying %s"` or the literal parts of a tagged template
+     * - `logger`: all messages of the logger share one limit
+     * Defaults to `template`.
+     */
+    per?: 'template' | 'logger';
+};
+
+export type CollapseOptions = {
+    /** Milliseconds without a repeat after which the summary of the repeats is written. Defaults to 1000. */
+    timeout?: number;
+};
+
+/** Numbers of log calls that were dropped by the guards of a logger, see {@link ComfyLogger.suppressionMetrics}. */
+export type SuppressionMetrics = {
+    /** Calls dropped because their rate limit was exhausted. */
+    rateLimited: number;
+    /** Calls dropped by sampling. */
+    sampled: number;
+    /** Repeated calls folded into a summary line. */
+    collapsed: number;
+    /**
+     * Calls dropped by the rate limit, by level and message template. Holds as many templates as the rate limit tracks
+     * buckets for (1000), calls with further templates are counted under `other`.
+     */
+    rateLimitedByTemplate: Record<string, number>;
+};
+
+/** A log call as seen by the guards, before anything about it is rendered. */
+type GuardedCall = {
+    level: LogLevel | number;
+    levelValue: number;
+    strings: TemplateStringsArray | any;
+    values: any[];
+    decoration?: MessageDecoration;
+};
+
+const isSameCall = (a: GuardedCall, b: GuardedCall): boolean =>
+    a.levelValue === b.levelValue
+    && a.decoration?.prefix === b.decoration?.prefix
+    && a.decoration?.style === b.decoration?.style
+    && Object.is(a.strings, b.strings)
+    && a.values.length === b.values.length
+    && a.values.every((value, i) => Object.is(value, b.values[i]));
+
+/** Selects records from the history buffer. All conditions must match. */
+export type HistoryQuery = {
+    /** Only records from loggers with at least one of these tags. */
+    tags?: string[];
+    /** Only records logged at or after this time, as a Date or milliseconds since the unix epoch. */
+    since?: Date | number;
+    /** Minimum severity of the records, as a level name or numeric severity. */
+    level?: LogLevel | number;
+};
+
+/** A record in the history buffer, together with what is needed to write it later. */
+type HistoryItem = {
+    record: LogRecord;
+    /** Whether the record has been written to the outputs, when it was logged or by a dump. */
+    written: boolean;
+    /** Renders the record the way the logger that emitted it would. */
+    render: () => LogEntry;
+    /** Writes the rendered record to the transports and listeners of the logger that emitted it. */
+    dispatch: (entry: LogEntry) => void;
 };
 
+const FIELDS = Symbol('comfylogger.fields');
+
+type FieldsMarker = { [FIELDS]: Record<string, unknown> };
+
+const isFieldsMarker = (value: unknown): value is FieldsMarker =>
+    typeof value === 'object' && value !== null && FIELDS in value;
+
+/**
+ * Attaches key/value fields to a single log record. The fields are not printed,
+ * but are available to event listeners and external logging.
+ * @example
+ * logger.info(fields({ userId: 42 }), "User signed in");
+ * logger.log`${fields({ userId: 42 })}User signed in`;
+ */
+export const fields = (values: Record<string, unknown>): FieldsMarker => ({ [FIELDS]: values });
+
+/** Prototypes whose `toString` does not say anything useful about the value, so the inspector is used instead. */
+const BUILTIN_TO_STRING_OWNERS = new Set<object>([
+    Object.prototype,
+    Array.prototype,
+    Date.prototype,
+    RegExp.prototype,
+    Object.getPrototypeOf(Uint8Array.prototype),
+]);
+
+/** Objects with their own `toString`, like URLs or user-defined classes, are rendered with it instead of being inspected. */
+const hasCustomToString = (value: object): boolean => {
+    let owner: object | null = value;
+    while (owner && !Object.prototype.hasOwnProperty.call(owner, 'toString')) {
+        owner = Object.getPrototypeOf(owner);
+    }
+    return owner !== null && !BUILTIN_TO_STRING_OWNERS.has(owner);
+}
+
+/** Level specific styling applied to the arguments of the convenience methods before rendering. */
+type MessageDecoration = {
+    prefix?: string;
+    style?: (text: any) => string;
+};
+
+/** Fields of the `runWithContext()` call in progress, shared by all loggers. */
+const contextStore = createContextStore();
+
+/** Depth of the spans in progress by logger, per async context, so that concurrent spans do not nest under each other. */
+const spanStore = createContextStore<ReadonlyMap<ComfyLogger, number>>();
+
+/** Reference point of the `elapsed` timestamp mode. */
+const START_TIME = Date.now();
+
+/** Stands in for the message when measuring how far into the layout it starts. */
+const MESSAGE_MARKER = '\u0000';
+
+/** Surrounds the index of a value held back while markup is rendered. */
+const PLACEHOLDER = '\uE000';
+const PLACEHOLDER_RE = /\uE000(\d+)\uE000/g;
+
+/** Shared by every logger that has `options.console` enabled. */
+const defaultConsoleTransport = new ConsoleTransport();
+
 const sharedGlobalConfig: LoggerRuntimeConfig = {
     autoSpaceBetween: true,
     timestampFormat: 'HH:mm:ss',
@@ -38,10 +417,20 @@ const sharedGlobalConfig: LoggerRuntimeConfig = {
     trimAfter: undefined,
     externalLogging: undefined,
     console: true,
+    transports: [] as Transport[],
     tags: [] as string[],
     logErrorsToConsole: true,
+    colorLevel: 'auto',
+    level: 'trace',
+    levels: { ...LogLevels },
 }
 
+/** Bumped whenever the options of any logger change, which invalidates the options that children merged from their parents. */
+let optionsGeneration = 0;
+
+/** Level names registered on any logger, which the global threshold accepts. */
+const knownLevelNames = new Set<string>(Object.keys(LogLevels));
+
 export class ComfyLoggerSettings {
     static blacklistTag(tag: string | string[]) {
         if (typeof tag === 'string') {
@@ -82,15 +471,111 @@ export class ComfyLoggerSettings {
     static isTagWhitelisted(tag: string): boolean {
         return __internalGlobalConfig.filter.whitelistTags.has(tag);
     }
+
+    /**
+     * Sets a filter expression over logger names and tags that every logger has to pass, e.g. `"api:*, -api:noisy"` or `"worker:* and not #verbose"`.
+     * See {@link compileFilter} for the syntax. Compiled filters and their results are cached.
+     * @param expression The filter expression, or `undefined` to remove the filter.
+     * @throws {FilterSyntaxError} If the expression is malformed.
+     */
+    static setFilter(expression: string | undefined) {
+        __internalGlobalConfig.filter.expression = expression?.trim() ? getFilter(expression.trim()) : undefined;
+    }
+
+    static getFilter(): string | undefined {
+        return __internalGlobalConfig.filter.expression?.source;
+    }
+
+    /**
+     * Sets a global minimum severity that applies to every logger on top of its own `level`.
+     * Level names are resolved against each logger's `levels`, so custom level names work as long as the logger knows them.
+     * @param level A level name, a numeric severity, or `undefined` to remove the global threshold.
+     * @throws Will throw an error if no logger has registered a level with the given name.
+     */
+    static setLevel(level: LogLevel | number | undefined) {
+        if (typeof level === 'string' && !knownLevelNames.has(level)) {
+            throw new Error(`Unknown log level "${level}". Register it through the "levels" option of a logger first.`);
+        }
+        __internalGlobalConfig.level = level;
+    }
+
+    static getLevel(): LogLevel | number | undefined {
+        return __internalGlobalConfig.level;
+    }
+
+    /**
+     * Sets the output format used by every logger that does not configure a format of its own.
+     * @throws Will throw an error if the format is not one of `pretty`, `json` or `logfmt`.
+     */
+    static setFormat(format: OutputFormat | undefined) {
+        if (format !== undefined && !outputFormats.includes(format)) {
+            throw new Error(`Unknown output format "${format}". Expected one of: ${outputFormats.join(', ')}.`);
+        }
+        __internalGlobalConfig.format = format;
+    }
+
+    static getFormat(): OutputFormat | undefined {
+        return __internalGlobalConfig.format;
+    }
+
+    /**
+     * Overrides the detected color support for every logger whose `colorLevel` is `auto`.
+     * @param level The color level, or `undefined` to detect it again.
+     */
+    static setColorLevel(level: ColorLevel | undefined) {
+        __internalGlobalConfig.colorLevel = level;
+    }
+
+    /** Returns the color support of stdout, detected on first use. */
+    static getColorLevel(): ColorLevel {
+        return __internalGlobalConfig.colorLevel ??= detectColorLevel();
+    }
 }
 
 const __internalGlobalConfig = {
     filter: {
         whitelistTags: new Set<string>(),
         blacklistTags: new Set<string>(),
-    }
+        expression: undefined as LogFilter | undefined,
+    },
+    level: undefined as LogLevel | number | undefined,
+    format: undefined as OutputFormat | undefined,
+    colorLevel: undefined as ColorLevel | undefined,
 };
 
+/** Accepts either a level name or a numeric string such as `"35"`. */
+const parseLevel = (value: string): LogLevel | number => {
+    const trimmed = value.trim();
+    const numeric = Number(trimmed);
+    return trimmed !== '' && !Number.isNaN(numeric) ? numeric : trimmed.toLowerCase();
+}
+
+/** Unknown formats only produce a warning, so that a typo in the environment does not crash the process on import. */
+const parseFormat = (value: string): OutputFormat | undefined => {
+    const format = value.trim().toLowerCase() as OutputFormat;
+    if (!outputFormats.includes(format)) {
+        console.warn(`Ignoring unknown log format "${value}". Expected one of: ${outputFormats.join(', ')}.`);
+        return undefined;
+    }
+    return format;
+}
+
+const setLevelOrWarn = (value: string) => {
+    try {
+        ComfyLoggerSettings.setLevel(parseLevel(value));
+    } catch (error) {
+        console.warn(`Ignoring invalid log level: ${(error as Error).message}`);
+    }
+}
+
+const setFilterOrWarn = (value: string) => {
+    try {
+        ComfyLoggerSettings.setFilter(value);
+    } catch (error) {
+        console.warn(`Ignoring invalid log filter: ${(error as Error).message}`);
+    }
+}
+
 export const cliArgs = {
     '--blacklist-tags': (value: string) => {
         const tags = value.split(',').map(tag => tag.trim());
@@ -104,10 +589,52 @@ export const cliArgs = {
             ComfyLoggerSettings.whitelistTag(tag);
         }
     },
+    '--log-level': (value: string) => {
+        setLevelOrWarn(value);
+    },
+    '--log-filter': (value: string) => {
+        setFilterOrWarn(value);
+    },
+    '--log-format': (value: string) => {
+        const format = parseFormat(value);
+        if (format) {
+            ComfyLoggerSettings.setFormat(format);
+        }
+    },
+}
+
+/**
+ * Environment variables that are read once on startup.
+ * Command line arguments take precedence, since they are applied afterwards.
+ */
+export const envVars = {
+    'COMFY_LOG_LEVEL': (value: string) => {
+        setLevelOrWarn(value);
+    },
+    'COMFY_LOG_FILTER': (value: string) => {
+        setFilterOrWarn(value);
+    },
+    'COMFY_LOG_FORMAT': (value: string) => {
+        const format = parseFormat(value);
+        if (format) {
+            ComfyLoggerSettings.setFormat(format);
+        }
+    },
 }
 
 declare var process: {
     argv: string[];
+    env?: Record<string, string | undefined>;
+    stdout?: { columns?: number };
+}
+
+if (typeof process !== 'undefined' && process.env) {
+    for (const [name, handler] of Object.entries(envVars)) {
+        const value = process.env[name];
+        if (value !== undefined && value !== '') {
+            handler(value);
+        }
+    }
 }
 
 if (typeof process !== 'undefined' && process.argv) {
@@ -129,28 +656,54 @@ if (typeof process !== 'undefined' && process.argv) {
  */
 export class ComfyLogger {
 
-    options: LoggerRuntimeConfig = {
+    /**
+     * This logger's own configuration. For child loggers this only holds the settings the child overrides,
+     * everything else is looked up on the parent every time it is needed.
+     */
+    #options: Partial<LoggerRuntimeConfig> = {
         autoSpaceBetween: sharedGlobalConfig.autoSpaceBetween,
         timestampFormat: sharedGlobalConfig.timestampFormat,
         externalLogging: sharedGlobalConfig.externalLogging,
         console: sharedGlobalConfig.console,
+        transports: [...sharedGlobalConfig.transports ?? []],
         tags: [...sharedGlobalConfig.tags ?? []],
         logErrorsToConsole: sharedGlobalConfig.logErrorsToConsole,
+        colorLevel: sharedGlobalConfig.colorLevel,
+        level: sharedGlobalConfig.level,
+        levels: { ...sharedGlobalConfig.levels },
     }
 
+    #parent?: ComfyLogger;
+
+    /** What `options` returned last, reused until the options of any logger change. */
+    #resolvedOptions?: { generation: number; options: LoggerRuntimeConfig };
+
+    /**
+     * The methods of the styles registered with `class()`. This object sits between the logger and its class in the prototype chain,
+     * and a child's sits on top of its parent's, so that styles the parent registers later still reach its children.
+     */
+    #classMethods: Record<string, StyleFn> = Object.create(Object.getPrototypeOf(this));
+
     name: string = `logger-${nanoid()}`;
 
     constructor(options?: ComfyLoggerConstructorOptions) {
+        Object.setPrototypeOf(this, this.#classMethods);
+
         if (options) {
-            this.configure(options);
-            if (options.listeners?.log) {
-                for (const listener of options.listeners.log) {
+            const { listeners, name, fields, ...config } = options;
+            this.configure(config);
+            if (listeners?.log) {
+                for (const listener of listeners.log) {
                     this.addEventListener('log', listener);
                 }
             }
 
-            if (options.name) {
-                this.name = options.name || `logger-${nanoid()}`;
+            if (fields) {
+                Object.assign(this.#internal.fields, fields);
+            }
+
+            if (name) {
+                this.name = name || `logger-${nanoid()}`;
             }
         }
     }
@@ -162,10 +715,322 @@ export class ComfyLogger {
 
         /** User-defined callback functions that perform custom string transformations on the log output before it is displayed or emitted. */
         transformers: {
-            before: [] as ((buffer: string) => string)[],
-            after: [] as ((buffer: string) => string)[]
+            before: [] as LogTransformer[],
+            after: [] as LogTransformer[]
+        },
+        classes: {} as Record<string, StyleFn>,
+        /** Names of the methods attached for the classes of the current theme, removed again when the theme changes. */
+        themeClasses: [] as string[],
+
+        /** Key/value pairs bound to this logger, which are added to every record it emits. */
+        fields: {} as Record<string, unknown>,
+
+        /** Start times of running timers by label, see `time()`. */
+        timers: new Map<string, number>(),
+        /** Counts by label, see `count()`. */
+        counters: new Map<string, number>(),
+
+        /** The transport created from `options.externalLogging`, recreated whenever that option is replaced. */
+        external: undefined as { options: ComfyLoggerExternalLoggingOptions; transport: HttpTransport } | undefined,
+
+        /** The token buckets created from `options.rateLimit`, recreated whenever that option is replaced. */
+        rateLimit: undefined as { options: RateLimitOptions; buckets: TokenBuckets } | undefined,
+        /** The last call that got through while collapsing, and how often it was repeated since. */
+        collapse: {
+            last: undefined as GuardedCall | undefined,
+            repeats: 0,
+            timer: undefined as ReturnType<typeof setTimeout> | undefined,
         },
-        classes: {} as Record<string, StyleFn>
+        suppressed: { rateLimited: 0, sampled: 0, collapsed: 0, rateLimitedByTemplate: {} } as SuppressionMetrics,
+
+        /** The buffer created from `options.history`, recreated whenever that option is replaced. */
+        history: undefined as { options: true | HistoryOptions; buffer: RingBuffer<HistoryItem> } | undefined,
+
+        /** Whether the warning about a message with invalid markup was shown already. */
+        markupWarned: false,
+    }
+
+    /**
+     * The effective configuration of this logger.
+     * Child loggers resolve it from their parent, so changes to the parent reach the child unless the child overrides that setting.
+     * Tags and levels are merged with the parent's instead of replacing them.
+     * Setting a property, like `child.options.level = 'warn'`, changes this logger's own configuration.
+     */
+    get options(): LoggerRuntimeConfig {
+        if (this.#resolvedOptions?.generation === optionsGeneration) {
+            return this.#resolvedOptions.options;
+        }
+
+        let merged = this.#options as LoggerRuntimeConfig;
+        if (this.#parent) {
+            const inherited = this.#parent.options;
+            const inheritedTags = inherited.tags ?? [];
+            merged = {
+                ...inherited,
+                ...this.#options,
+                tags: [...inheritedTags, ...(this.#options.tags ?? []).filter(tag => !inheritedTags.includes(tag))],
+                levels: { ...inherited.levels, ...this.#options.levels },
+            };
+        }
+
+        // writes go to this logger's own options, so that they outlast the merged copy and reach its children
+        const options = new Proxy(merged, {
+            set: (target, key, value) => {
+                Reflect.set(target, key, value);
+                Reflect.set(this.#options, key, value);
+                optionsGeneration++;
+                return true;
+            },
+        });
+        this.#resolvedOptions = { generation: optionsGeneration, options };
+        return options;
+    }
+
+    set options(value: LoggerRuntimeConfig) {
+        this.#options = value;
+        optionsGeneration++;
+    }
+
+    /**
+     * Runs a function with fields that are added to the records of every logger while it runs, e.g. a request id.
+     * In Node the fields also follow the promises, timers and callbacks started by the function, through `AsyncLocalStorage`.
+     * Elsewhere they only apply to what is logged before the function returns.
+     * Nested calls add to the fields of the enclosing call. Fields passed to a log call take precedence over them.
+     * @example
+     * server.on('request', (req, res) => ComfyLogger.runWithContext({ requestId: req.headers['x-request-id'] }, () => handle(req, res)));
+     */
+    static runWithContext<T>(fields: Record<string, unknown>, fn: () => T): T {
+        return contextStore.run({ ...contextStore.get(), ...fields }, fn);
+    }
+
+    /** The fields of the `runWithContext()` call in progress. */
+    static get context(): Record<string, unknown> {
+        return { ...contextStore.get() };
+    }
+
+    /** Key/value pairs bound to this logger and its ancestors. */
+    get boundFields(): Record<string, unknown> {
+        return { ...this.#parent?.boundFields, ...this.#internal.fields };
+    }
+
+    /**
+     * Creates a child logger that inherits this logger's options, transformers, custom styles and event listeners.
+     * The child's name is joined to this logger's name as a namespace, tags are added to the inherited ones,
+     * and the given fields are attached to every record the child emits.
+     * Everything the child does not override, custom styles included, is looked up on the parent when it is used.
+     * @example
+     * const db = logger.child({ name: 'db', tags: ['database'], fields: { pool: 'primary' } });
+     * const pool = db.child({ name: 'pool' }); // named "<logger>:db:pool"
+     */
+    child(options: ComfyLoggerConstructorOptions = {}): ComfyLogger {
+        const { listeners, name, fields, ...config } = options;
+        const child = new ComfyLogger();
+        child.#parent = this;
+        child.#options = {};
+        optionsGeneration++;
+        child.name = name ? `${this.name}:${name}` : this.name;
+        child.configure(config);
+
+        if (listeners?.log) {
+            for (const listener of listeners.log) {
+                child.addEventListener('log', listener);
+            }
+        }
+
+        if (fields) {
+            Object.assign(child.#internal.fields, fields);
+        }
+
+        Object.setPrototypeOf(child.#classMethods, this.#classMethods);
+        child.#applyThemeClasses();
+
+        return child;
+    }
+
+    #classes(): Record<string, StyleFn> {
+        return this.#parent ? { ...this.#parent.#classes(), ...this.#internal.classes } : this.#internal.classes;
+    }
+
+    /** The current theme, with a built-in theme's name resolved. */
+    #theme(): Theme {
+        const theme = this.options.theme ?? 'default';
+        return typeof theme === 'string' ? themes[theme] : theme;
+    }
+
+    /** Style of a level method's message, or of its prefix for `error` and `fatal`, see {@link Theme.levels}. */
+    #levelStyle(name: string): (text: string) => string {
+        return this.#theme().levels?.[name] ?? themes.default.levels[name] ?? (text => text);
+    }
+
+    /**
+     * Attaches the classes of the current theme as methods, replacing those of the previous theme.
+     * Styles registered with `class()` take precedence over theme classes of the same name.
+     */
+    #applyThemeClasses() {
+        for (const name of this.#internal.themeClasses) {
+            delete (this as any)[name];
+        }
+        this.#internal.themeClasses = [];
+
+        const own = this.#classes();
+        for (const [name, styleFn] of Object.entries(this.#theme().classes ?? {})) {
+            if (Object.prototype.hasOwnProperty.call(own, name)) {
+                continue;
+            }
+            if (name in this) {
+                throw new Error(`Cannot define theme class "${name}" as it conflicts with an existing property on the logger.`);
+            }
+            // a style of the same name that an ancestor registers later still takes precedence
+            Object.defineProperty(this, name, {
+                get: () => this.#classes()[name] ?? styleFn,
+                configurable: true,
+                enumerable: true,
+            });
+            this.#internal.themeClasses.push(name);
+        }
+    }
+
+    /** Styles that markup can refer to: the built-in ones, the theme's classes and the styles registered with `class()`. */
+    #markupStyles(): Record<string, (text: string) => string> {
+        return { ...markupStyles, ...this.#theme().classes, ...this.#classes() };
+    }
+
+    #transformers(kind: 'before' | 'after'): LogTransformer[] {
+        const own = this.#internal.transformers[kind];
+        return this.#parent ? [...this.#parent.#transformers(kind), ...own] : own;
+    }
+
+    /** Children that do not override `externalLogging` share their parent's transport, so that `flush()` on the parent covers them. */
+    #externalTransport(): HttpTransport | undefined {
+        if (this.#parent && !('externalLogging' in this.#options)) {
+            return this.#parent.#externalTransport();
+        }
+
+        const externalLogging = this.#options.externalLogging;
+        if (!externalLogging) {
+            return undefined;
+        }
+
+        if (this.#internal.external?.options !== externalLogging) {
+            const transport = new HttpTransport({
+                ...externalLogging,
+                onError: externalLogging.onError ?? (error => {
+                    if (this.options.logErrorsToConsole) {
+                        console.error("Error in external logging:", error);
+                    }
+                }),
+            });
+            this.#internal.external = { options: externalLogging, transport };
+        }
+
+        return this.#internal.external.transport;
+    }
+
+    /** Children that do not override `history` share their parent's buffer, so that a dump shows what happened across all of them. */
+    #history(): { options: HistoryOptions; buffer: RingBuffer<HistoryItem> } | undefined {
+        if (this.#parent && !('history' in this.#options)) {
+            return this.#parent.#history();
+        }
+
+        const history = this.#options.history;
+        if (!history) {
+            return undefined;
+        }
+
+        if (this.#internal.history?.options !== history) {
+            const size = history === true ? undefined : history.size;
+            this.#internal.history = { options: history, buffer: new RingBuffer(size ?? 1000) };
+        }
+
+        const { options, buffer } = this.#internal.history;
+        return { options: options === true ? {} : options, buffer };
+    }
+
+    /**
+     * Records in the history buffer from oldest to newest, including those that were filtered out by level or tags.
+     * Returns an empty array when `history` is not enabled.
+     * @example
+     * logger.history({ tags: ['database'], since: Date.now() - 60_000, level: 'debug' });
+     */
+    history(query: HistoryQuery = {}): LogRecord[] {
+        return this.#historyItems(query).map(item => item.record);
+    }
+
+    /**
+     * The history buffer as NDJSON, one line per record in the same shape as the `json` format, e.g. to attach to a bug report.
+     * Records that were filtered out are rendered for this.
+     */
+    exportHistory(query: HistoryQuery = {}): string {
+        return this.#historyItems(query).map(item => formatEntry(item.render(), 'json') + '\n').join('');
+    }
+
+    /**
+     * Writes the buffered records that have not been written yet to the outputs, oldest first.
+     * This happens on its own when a record at the `dumpOn` level of {@link HistoryOptions} is logged.
+     * @returns The entries that were written.
+     */
+    dumpHistory(): LogEntry[] {
+        const entries: LogEntry[] = [];
+        for (const item of this.#history()?.buffer.toArray() ?? []) {
+            if (item.written) {
+                continue;
+            }
+
+            item.written = true;
+            const entry = item.render();
+            item.dispatch(entry);
+            entries.push(entry);
+        }
+        return entries;
+    }
+
+    /** Removes all records from the history buffer. */
+    clearHistory() {
+        this.#history()?.buffer.clear();
+    }
+
+    #historyItems(query: HistoryQuery): HistoryItem[] {
+        const since = query.since instanceof Date ? query.since.getTime() : query.since ?? -Infinity;
+        const minimum = this.#threshold(query.level);
+        return (this.#history()?.buffer.toArray() ?? []).filter(({ record }) =>
+            record.timestamp >= since
+            && record.levelValue >= minimum
+            && (!query.tags || query.tags.some(tag => record.tags.includes(tag))));
+    }
+
+    /** All transports this logger currently writes to, including the built-in console and HTTP transports. */
+    #transports(): Transport[] {
+        const transports: Transport[] = [];
+        if (this.options.console) {
+            transports.push(defaultConsoleTransport);
+        }
+
+        transports.push(...this.options.transports ?? []);
+
+        const external = this.#externalTransport();
+        if (external) {
+            transports.push(external);
+        }
+
+        return transports;
+    }
+
+    /** Waits until every transport of this logger has delivered what was written to it so far. */
+    async flush() {
+        this.#flushRepeats();
+        await Promise.all(this.#transports().map(transport => transport.flush?.()));
+    }
+
+    /** Flushes and closes every transport of this logger. */
+    async close() {
+        this.#flushRepeats();
+        await Promise.all(this.#transports().map(transport => transport.close?.()));
+    }
+
+    /** Own listeners first, then the ancestors' listeners, similar to event bubbling. */
+    #listeners(event: LoggerEvent): LoggerEventListener[] {
+        const own = this.#internal.eventListeners[event];
+        return this.#parent ? [...own, ...this.#parent.#listeners(event)] : own;
     }
 
     get tags () {
@@ -176,24 +1041,24 @@ export class ComfyLogger {
         throw new Error("Cannot set tags directly. Use the addTag and removeTag methods to modify tags.");
     }
 
-    transformBefore(args: Array<((buffer: string) => string)> | ((buffer: string) => string)) {
+    transformBefore(args: Array<LogTransformer> | LogTransformer) {
         if (Array.isArray(args)) {
-            this.#internal.transformers.before.push(...args as ((buffer: string) => string)[]);
+            this.#internal.transformers.before.push(...args);
         } else {
             this.#internal.transformers.before.push(args);
         }
     }
 
-    transformAfter(args: Array<((buffer: string) => string)> | ((buffer: string) => string)) {
+    transformAfter(args: Array<LogTransformer> | LogTransformer) {
         if (Array.isArray(args)) {
-            this.#internal.transformers.after.push(...args as ((buffer: string) => string)[]);
+            this.#internal.transformers.after.push(...args);
         } else {
             this.#internal.transformers.after.push(args);
         }
     }
 
     /**
-     * @description Registers an event listener for log events. The listener will receive an object containing both the formatted output with ANSI codes and a stripped version without any ANSI codes. This allows for flexible handling of log messages, such as sending the formatted version to the console and the stripped version to a file or remote logging service.
+     * @description Registers an event listener for log events. The listener will receive the structured log record (logger name, tags, timestamp, level, raw arguments and fields), along with both the formatted output with ANSI codes and a stripped version without any ANSI codes. This allows for flexible handling of log messages, such as sending the formatted version to the console and the stripped version to a file or remote logging service.
      * @example Example usage of the log event listener to send logs to a remote server:
      * ```ts
      * logger.addEventListener('log', ({ output, stripped }) => {
@@ -211,31 +1076,105 @@ export class ComfyLogger {
     }
 
     /**
-     * Removes a previously registered event listener for log events.
-     * @param callback The listener function to remove from the log event listeners.
-     * @todo index listeners more efficiently with a Map or Set instead of iterating all event types, plus return early when trying to register an event listener that has already been registered (per event type)
+     * Removes a previously registered event listener for log events.
+     * @param callback The listener function to remove from the log event listeners.
+     * @todo index listeners more efficiently with a Map or Set instead of iterating all event types, plus return early when trying to register an event listener that has already been registered (per event type)
+     */
+    removeEventListener(callback: LoggerEventListener) {
+        let foundListeners = [];
+        for (const event in this.#internal.eventListeners) {
+            const listeners = this.#internal.eventListeners[event as LoggerEvent];
+            for (let i = listeners.length - 1; i >= 0; i--) {
+                if (listeners[i] === callback) {
+                    listeners.splice(i, 1);
+                    foundListeners.push(callback);
+                }
+            }
+        }
+
+        if (foundListeners.length === 0) {
+            console.warn("Listener not found for removal:", callback);
+        }
+
+        return foundListeners.length > 0;
+    }
+
+    configure(options: Partial<LoggerRuntimeConfig>) {
+        if (options.layout) {
+            // fail early on unknown tokens instead of on the next log call
+            compileLayout(options.layout);
+        }
+        // a level that is not known would not filter anything
+        const knownLevels = { ...this.options.levels, ...options.levels };
+        if (typeof options.level === 'string' && knownLevels[options.level] === undefined) {
+            throw new Error(`Unknown log level "${options.level}". Register it through the "levels" option first.`);
+        }
+        for (const transport of options.transports ?? []) {
+            if (typeof transport.level === 'string' && knownLevels[transport.level] === undefined) {
+                throw new Error(`Unknown log level "${transport.level}" for a transport. Register it through the "levels" option first.`);
+            }
+        }
+        if (typeof options.theme === 'string' && !Object.prototype.hasOwnProperty.call(themes, options.theme)) {
+            throw new Error(`Unknown theme "${options.theme}". Built-in themes are ${Object.keys(themes).join(', ')}.`);
+        }
+
+        // custom levels extend the existing table instead of replacing it
+        const levels = options.levels ? { ...this.#options.levels, ...options.levels } : this.#options.levels;
+        this.#options = { ...this.#options, ...options, levels };
+        optionsGeneration++;
+        for (const name of Object.keys(options.levels ?? {})) {
+            knownLevelNames.add(name);
+        }
+
+        if ('theme' in options) {
+            this.#applyThemeClasses();
+        }
+    }
+
+    /**
+     * Resolves a level name or numeric severity to its numeric value.
+     * @throws Will throw an error if the level name is not known to this logger.
      */
-    removeEventListener(callback: LoggerEventListener) {
-        let foundListeners = [];
-        for (const event in this.#internal.eventListeners) {
-            const listeners = this.#internal.eventListeners[event as LoggerEvent];
-            for (let i = listeners.length - 1; i >= 0; i--) {
-                if (listeners[i] === callback) {
-                    listeners.splice(i, 1);
-                    foundListeners.push(callback);
-                }
+    levelValue(level: LogLevel | number): number {
+        if (typeof level === 'number') {
+            return level;
+        }
+
+        const value = this.options.levels?.[level];
+        if (value === undefined) {
+            throw new Error(`Unknown log level "${level}". Register it through the "levels" option first.`);
+        }
+
+        return value;
+    }
+
+    /** Finds the name of a numeric severity, falling back to the number itself when no level matches exactly. */
+    #levelName(value: number): string {
+        for (const [name, levelValue] of Object.entries(this.options.levels ?? {})) {
+            if (levelValue === value) {
+                return name;
             }
         }
 
-        if (foundListeners.length === 0) {
-            console.warn("Listener not found for removal:", callback);
+        return String(value);
+    }
+
+    /** Resolves a threshold to a number, ignoring level names this logger does not know about. */
+    #threshold(level: LogLevel | number | undefined): number {
+        if (level === undefined) {
+            return -Infinity;
         }
 
-        return foundListeners.length > 0;
+        if (typeof level === 'number') {
+            return level;
+        }
+
+        return this.options.levels?.[level] ?? -Infinity;
     }
 
-    configure(options: Partial<LoggerRuntimeConfig>) {
-        this.options = { ...this.options, ...options };
+    /** Returns true if a message at the given level would pass this logger's thresholds. */
+    isLevelEnabled(level: LogLevel | number): boolean {
+        return this.#shouldLog(this.levelValue(level));
     }
 
     #render(strings: TemplateStringsArray | any, ...values: any[]) {
@@ -245,20 +1184,37 @@ export class ComfyLogger {
             result = (strings as TemplateStringsArray).reduce((acc: string, str: string, i: number) => {
                 const val = values[i - 1];
                 const part = val !== undefined
-                    ? (typeof val === 'function' ? val() : String(val))
+                    ? this.#stringify(val)
                     : '';
                 return acc + part + str;
             }, '');
         } else {
             const separator = this.options.autoSpaceBetween ? ' ' : '';
             result = [strings, ...values]
-                .map((val: any) => typeof val === 'function' ? val() : String(val))
+                .map((val: any) => this.#stringify(val))
                 .join(separator);
         }
 
         return result;
     }
 
+    #stringify(val: any): string {
+        if (typeof val === 'function') {
+            return val();
+        }
+
+        if (isError(val)) {
+            return renderError(val, this.options.errors);
+        }
+
+        if (typeof val === 'object' && val !== null && !hasCustomToString(val)) {
+            const options = this.options.inspect;
+            return inspect(val, { ...options, styles: { ...defaultInspectStyles, ...this.#theme().inspect, ...options?.styles } });
+        }
+
+        return String(val);
+    }
+
     /**
      * Defines a custom style function that can be used in log messages.
      * @param name The name of the custom style. This will become a method on the logger instance that can be used to apply the style to text.
@@ -266,14 +1222,30 @@ export class ComfyLogger {
      * @throws Will throw an error if the provided name conflicts with an existing property on the logger instance.
      */
     class(name: string, styleFn: StyleFn) {
+        const themeClass = this.#internal.themeClasses.indexOf(name);
+        if (themeClass !== -1) {
+            // styles registered here take precedence over the theme's classes
+            this.#internal.themeClasses.splice(themeClass, 1);
+            delete (this as any)[name];
+        }
+
         if (name in this || Object.prototype.hasOwnProperty.call(this, name)) {
             throw new Error(`Cannot define style with name "${name}" as it conflicts with an existing property on the logger.`);
         }
         
-        (this as any)[name] = styleFn;
+        this.#classMethods[name] = styleFn;
+        this.#internal.classes[name] = styleFn;
     }
 
-    #shouldLog(): boolean {
+    #shouldLog(levelValue: number): boolean {
+        if (levelValue < this.#threshold(this.options.level)) {
+            return false;
+        }
+
+        if (levelValue < this.#threshold(__internalGlobalConfig.level)) {
+            return false;
+        }
+
         const tags = this.options.tags ?? [];
         const blacklist = ComfyLoggerSettings.isTagBlacklisted;
         const whitelist = ComfyLoggerSettings.isTagWhitelisted;
@@ -293,128 +1265,558 @@ export class ComfyLogger {
             }
         }
 
+        const filter = __internalGlobalConfig.filter.expression;
+        if (filter && !filter.test(this.name, tags)) {
+            return false;
+        }
+
         return true;
     }
 
     log(strings: TemplateStringsArray | any, ...values: any[]) {
-        if (!this.#shouldLog()) {
+        return this.#write('info', strings, values);
+    }
+
+    /**
+     * Logs a message at an arbitrary severity level.
+     * @param level A level name known to this logger, or a raw numeric severity.
+     * @example
+     * logger.configure({ levels: { notice: 35 } });
+     * logger.logAt('notice', "Disk usage is at 80%");
+     */
+    logAt(level: LogLevel | number, strings: TemplateStringsArray | any, ...values: any[]) {
+        return this.#write(level, strings, values);
+    }
+
+    /** Numbers of calls this logger dropped through rate limiting, sampling and collapsing, since it was created. */
+    suppressionMetrics(): SuppressionMetrics {
+        const suppressed = this.#internal.suppressed;
+        return { ...suppressed, rateLimitedByTemplate: { ...suppressed.rateLimitedByTemplate } };
+    }
+
+    /** Applies collapsing, sampling and the rate limit, in that order. Returns false if the call is to be dropped. */
+    #passesGuards(call: GuardedCall): boolean {
+        const { collapse: collapseOption, sample, rateLimit } = this.options;
+        const collapse = this.#internal.collapse;
+        const suppressed = this.#internal.suppressed;
+
+        if (collapseOption) {
+            if (collapse.last && isSameCall(collapse.last, call)) {
+                collapse.repeats++;
+                suppressed.collapsed++;
+                const timeout = collapseOption === true ? 1000 : collapseOption.timeout ?? 1000;
+                clearTimeout(collapse.timer);
+                collapse.timer = setTimeout(() => this.#flushRepeats(), timeout);
+                // pending repeats should not keep the process alive
+                (collapse.timer as { unref?: () => void }).unref?.();
+                return false;
+            }
+            this.#flushRepeats();
+        }
+
+        const levelName = typeof call.level === 'number' ? this.#levelName(call.level) : call.level;
+        const probability = sample?.[levelName];
+        if (probability !== undefined && Math.random() >= probability) {
+            suppressed.sampled++;
+            return false;
+        }
+
+        if (rateLimit) {
+            if (this.#internal.rateLimit?.options !== rateLimit) {
+                this.#internal.rateLimit = { options: rateLimit, buckets: new TokenBuckets(rateLimit.rate, rateLimit.burst) };
+            }
+            const template = Array.isArray(call.strings) && 'raw' in call.strings
+                ? call.strings.join('${}')
+                : typeof call.strings === 'string' ? call.strings : '';
+            const key = rateLimit.per === 'logger' ? '' : `${levelName}:${template}`;
+            const { buckets } = this.#internal.rateLimit;
+            if (!buckets.take(key)) {
+                const byTemplate = suppressed.rateLimitedByTemplate;
+                // bounded like the buckets, so that messages with ever changing text can not grow it forever
+                const counted = key in byTemplate || !('other' in byTemplate || Object.keys(byTemplate).length >= buckets.maxKeys)
+                    ? key
+                    : 'other';
+                suppressed.rateLimited++;
+                byTemplate[counted] = (byTemplate[counted] ?? 0) + 1;
+                return false;
+            }
+        }
+
+        if (collapseOption) {
+            collapse.last = call;
+        }
+        return true;
+    }
+
+    /** Writes the summary of the repeats of the last collapsed call, if there were any. */
+    #flushRepeats() {
+        const collapse = this.#internal.collapse;
+        const { last, repeats } = collapse;
+        clearTimeout(collapse.timer);
+        collapse.timer = undefined;
+        collapse.last = undefined;
+        collapse.repeats = 0;
+
+        if (last && repeats > 0) {
+            this.#emit(last.level, last.levelValue, `… (repeated ${repeats} ${repeats === 1 ? 'time' : 'times'})`, [fields({ repeated: repeats })], last.decoration);
+        }
+    }
+
+    #write(level: LogLevel | number, strings: TemplateStringsArray | any, values: any[], decoration?: MessageDecoration) {
+        const levelValue = this.levelValue(level);
+        const { collapse, sample, rateLimit } = this.options;
+        if ((collapse || sample || rateLimit) && this.#shouldLog(levelValue) && !this.#passesGuards({ level, levelValue, strings, values, decoration })) {
+            return;
+        }
+
+        return this.#emit(level, levelValue, strings, values, decoration);
+    }
+
+    /** Builds the record of a log call, buffers it and writes it to the outputs if it passes the filters. */
+    #emit(level: LogLevel | number, levelValue: number, strings: TemplateStringsArray | any, values: any[], decoration?: MessageDecoration) {
+        const enabled = this.#shouldLog(levelValue);
+        // with a history buffer, filtered records are still captured, but not rendered unless they are dumped
+        const history = this.#history();
+        if (!enabled && !history) {
+            return;
+        }
+
+        const isTemplate = Array.isArray(strings) && 'raw' in strings;
+        const recordFields: Record<string, unknown> = {};
+        const collectFields = (value: unknown) => {
+            if (isFieldsMarker(value)) {
+                Object.assign(recordFields, value[FIELDS]);
+                return true;
+            }
+            return false;
+        };
+
+        // field markers are pulled out of the arguments so they never show up in the output
+        let args: any[];
+        if (isTemplate) {
+            values = values.map(value => collectFields(value) ? undefined : value);
+            args = values;
+        } else {
+            args = [strings, ...values].filter(value => !collectFields(value));
+            [strings, ...values] = args.length > 0 ? args : [''];
+        }
+
+        const redactor = this.options.redact ? getRedactor(this.options.redact) : undefined;
+        if (redactor) {
+            args = redactor.value(args);
+            if (isTemplate) {
+                values = args;
+            } else if (args.length > 0) {
+                [strings, ...values] = args;
+            }
+        }
+
+        const record: LogRecord = {
+            name: this.name,
+            tags: [...this.options.tags ?? []],
+            timestamp: Date.now(),
+            level: typeof level === 'number' ? this.#levelName(level) : level,
+            levelValue,
+            args,
+            template: isTemplate ? [...strings as TemplateStringsArray].map(part => redactor ? redactor.text(part) : part) : undefined,
+            fields: { ...this.boundFields, ...contextStore.get(), ...recordFields },
+        };
+
+        if (redactor) {
+            record.fields = redactor.value(record.fields);
+        }
+
+        const dispatch = (entry: LogEntry) => this.#dispatch(entry);
+        if (!enabled) {
+            history!.buffer.push({ record, written: false, render: () => this.#renderEntry(record, strings, values, isTemplate, decoration), dispatch });
             return;
         }
 
-        let result = this.#render(strings, ...values);
+        const dumpOn = history?.options.dumpOn ?? 'error';
+        if (history && dumpOn !== false && levelValue >= this.#threshold(dumpOn)) {
+            this.dumpHistory();
+        }
+
+        const entry = this.#renderEntry(record, strings, values, isTemplate, decoration);
+        history?.buffer.push({ record, written: true, render: () => entry, dispatch });
+        dispatch(entry);
+        return entry;
+    }
+
+    /** Renders a record's message with styles, transformers and the layout applied. */
+    #renderEntry(record: LogRecord, strings: TemplateStringsArray | any, values: any[], isTemplate: boolean, decoration?: MessageDecoration): LogEntry {
+        const redactor = this.options.redact ? getRedactor(this.options.redact) : undefined;
+
+        // lazy values are resolved once, as the message is rendered twice
+        const resolve = (value: unknown) => typeof value === 'function' ? String(value()) : value;
+        values = values.map(resolve);
+        if (!isTemplate) {
+            strings = resolve(strings);
+        }
+        let message = this.#plainMessage(strings, values, isTemplate);
+
+        if (this.options.markup) {
+            [strings, values] = this.#applyMarkup(strings, values, isTemplate);
+        }
+
+        // tagged templates are flattened first, so that level styling applies to the whole message
+        if (decoration && isTemplate) {
+            strings = this.#render(strings, ...values);
+            values = [];
+        }
+
+        if (decoration?.style) {
+            // objects and errors are rendered before styling, the style would otherwise turn them into "[object Object]"
+            strings = decoration.style(typeof strings === 'string' ? strings : this.#stringify(strings));
+        }
+
+        let result = decoration?.prefix !== undefined
+            ? this.#render(decoration.prefix, strings, ...values)
+            : this.#render(strings, ...values);
 
-        for (const transform of this.#internal.transformers.before) {
-            result = transform(result);
+        for (const transform of this.#transformers('before')) {
+            result = transform(result, record);
         }
 
         let finalMessage = result + ANSI.STYLE.reset;
 
-        for (const transform of this.#internal.transformers.after) {
-            finalMessage = transform(finalMessage);
+        for (const transform of this.#transformers('after')) {
+            finalMessage = transform(finalMessage, record);
         }
 
         if (this.options.trimBefore) {
             finalMessage = finalMessage.trimStart();
+            message = message.trimStart();
         }
 
         if (this.options.trimAfter) {
             finalMessage = finalMessage.trimEnd();
+            message = message.trimEnd();
         }
 
-        // you can turn off logging to stdio
-        // options.console is true by default
-        if (this.options.console) {
-            console.log(finalMessage);
+        if (this.options.layout) {
+            finalMessage = this.#applyLayout(this.options.layout, record, finalMessage);
         }
 
-        const stripAnsi = (msg: string) =>
-            msg.replace(/\x1b(\[[0-9;]*m|]8;;.*?[\u0007]|]8;;[\u0007])/g, '');
+        // catches secrets in template literals and anything the transformers added
+        if (redactor) {
+            finalMessage = redactor.text(finalMessage);
+            message = redactor.text(message);
+        }
 
-        const resultObj = {
+        return {
+            ...record,
             output: finalMessage,
             stripped: stripAnsi(finalMessage),
+            message: stripAnsi(message),
         };
+    }
+
+    /** Renders the message for the structured formats: without the level decoration, and errors without their stack. */
+    #plainMessage(strings: TemplateStringsArray | any, values: any[], isTemplate: boolean): string {
+        const summarize = (value: unknown) => isError(value) ? `${value.name || 'Error'}: ${value.message}` : value;
+        values = values.map(summarize);
+        if (!isTemplate) {
+            strings = summarize(strings);
+        }
+
+        if (this.options.markup) {
+            [strings, values] = this.#applyMarkup(strings, values, isTemplate);
+        }
+
+        return this.#render(strings, ...values);
+    }
+
+    /** Writes an entry to every transport that accepts it, then passes it to the listeners. */
+    #dispatch(resultObj: LogEntry) {
+        const levelValue = resultObj.levelValue;
+        const format = this.options.format ?? __internalGlobalConfig.format ?? 'pretty';
+        const defaultFormat = format === 'pretty' ? 'ansi' : format;
+        const colorLevel = this.options.colorLevel === undefined || this.options.colorLevel === 'auto'
+            ? ComfyLoggerSettings.getColorLevel()
+            : this.options.colorLevel;
+
+        // continuation lines line up with the message, after whatever the layout puts in front of it
+        const wrapWidth = this.#wrapWidth();
+        const indent = wrapWidth && this.options.layout
+            ? visibleLength(this.#applyLayout(this.options.layout, resultObj, MESSAGE_MARKER).split(MESSAGE_MARKER)[0])
+            : 0;
+
+        for (const transport of this.#transports()) {
+            if (!matchesTags(transport, resultObj.tags)) {
+                continue;
+            }
 
-        for (const onLog of this.#internal.eventListeners['log']) {
+            try {
+                // throws for levels that were removed or never registered on this logger, instead of letting everything through
+                if (transport.level !== undefined && levelValue < this.levelValue(transport.level)) {
+                    continue;
+                }
+
+                const transportFormat = transport.format ?? defaultFormat;
+                let line = formatEntry(resultObj, transportFormat, colorLevel);
+                if (wrapWidth && transport instanceof ConsoleTransport && (transportFormat === 'ansi' || transportFormat === 'text')) {
+                    line = wrap(line, wrapWidth, { indent: Math.min(indent, wrapWidth - 1) });
+                }
+                transport.write(line, resultObj);
+            } catch (error) {
+                if (this.options.logErrorsToConsole) {
+                    console.error("Error in log transport:", error);
+                }
+            }
+        }
+
+        for (const onLog of this.#listeners('log')) {
             try {
                 onLog(resultObj);
             } catch (error) {
                 console.error("Error in log event listener:", error);
             }
         }
+    }
 
-        if (this.options.externalLogging) {
-            const { url, headers = {}, method = 'POST' } = this.options.externalLogging;
-            fetch(url, {
-                method,
-                headers: {
-                    'Content-Type': 'application/json',
-                    ...headers,
-                },
-                body: JSON.stringify({ message: resultObj.stripped }),
-            }).catch(error => {
-                if (this.options.logErrorsToConsole) {
-                    console.error("Error in external logging:", error);
+    #applyLayout(template: string, record: LogRecord, message: string): string {
+        const styles: LayoutStyles = {
+            ...defaultLayoutStyles,
+            level: (text, record) => this.#levelStyle(record.level)(text),
+            ...this.#theme().layout,
+            ...this.options.layoutStyles,
+        };
+        return renderLayout(compileLayout(template), {
+            timestamp: this.#formatRecordTime(record.timestamp),
+            level: record.level.toUpperCase(),
+            name: record.name,
+            tags: record.tags.map(tag => `#${tag}`).join(' '),
+            fields: toLogfmt(record.fields),
+            message,
+        }, (token, text) => {
+            const style = styles[token as keyof LayoutStyles];
+            return style ? style(text, record) : text;
+        });
+    }
+
+    /** Renders markup in the message, holding the logged values back so that they are inserted as they are. */
+    #applyMarkup(strings: TemplateStringsArray | any, values: any[], isTemplate: boolean): [string, any[]] {
+        const held: string[] = [];
+        const hold = (value: unknown) => `${PLACEHOLDER}${held.push(this.#stringify(value)) - 1}${PLACEHOLDER}`;
+
+        let source: string;
+        let rest: any[] = [];
+        if (isTemplate) {
+            source = (strings as TemplateStringsArray).reduce((acc, str, i) =>
+                acc + (values[i - 1] !== undefined ? hold(values[i - 1]) : '') + str);
+        } else if (typeof strings === 'string') {
+            let next = 0;
+            source = strings.replace(/%([sdifoOj%])/g, (placeholder, type: string) => {
+                if (type === '%') {
+                    return '%';
+                }
+                if (next >= values.length) {
+                    return placeholder;
+                }
+                const value = values[next++];
+                switch (type) {
+                    case 'd':
+                    case 'i':
+                        return hold(Math.trunc(Number(value)));
+                    case 'f':
+                        return hold(Number(value));
+                    case 'j':
+                        return hold(JSON.stringify(value));
+                    default:
+                        return hold(value);
                 }
             });
+            rest = values.slice(next);
+        } else {
+            return [strings, values];
+        }
+
+        let rendered: string;
+        try {
+            rendered = renderMarkup(source, { styles: this.#markupStyles() });
+        } catch (error) {
+            if (!(error instanceof MarkupError)) {
+                throw error;
+            }
+            // a log call should not throw because its message happens to look like markup
+            if (!this.#internal.markupWarned) {
+                this.#internal.markupWarned = true;
+                console.warn(`Logging a message with invalid markup as plain text: ${error.message}`);
+            }
+            rendered = source;
+        }
+
+        return [rendered.replace(PLACEHOLDER_RE, (_, index: string) => held[Number(index)]), rest];
+    }
+
+    /**
+     * Renders markup with the built-in styles, the classes of the theme and the styles registered on this logger with `class()`.
+     * @example logger.markup("{red.bold Error:} disk full")
+     */
+    markup(source: string): string {
+        return renderMarkup(source, { styles: this.#markupStyles() });
+    }
+
+    #wrapWidth(): number | undefined {
+        const option = this.options.wrap;
+        if (typeof option === 'number') {
+            return option;
         }
+        return option && typeof process !== 'undefined' ? process.stdout?.columns : undefined;
+    }
 
-        return resultObj;
+    #formatRecordTime(timestamp: number): string {
+        const format = this.options.timestampFormat ?? 'YYYY-MM-DD HH:mm:ss';
+        switch (this.options.timestampMode ?? 'local') {
+            case 'local':
+                return formatTimestamp(format, new Date(timestamp));
+            case 'utc':
+                return formatTimestamp(format, new Date(timestamp), true);
+            case 'iso':
+                return new Date(timestamp).toISOString();
+            case 'elapsed':
+                return formatElapsed(timestamp - START_TIME);
+        }
     }
 
     timestamp(format: string = this.options.timestampFormat ?? 'YYYY-MM-DD HH:mm:ss'): string {
-        const now = new Date();
         const fmt = format ?? this.options.timestampFormat ?? 'YYYY-MM-DD HH:mm:ss';
-        const replacements: Record<string, string> = {
-            'YYYY': String(now.getFullYear()),
-            'MM': String(now.getMonth() + 1).padStart(2, '0'),
-            'DD': String(now.getDate()).padStart(2, '0'),
-            'HH': String(now.getHours()).padStart(2, '0'),
-            'mm': String(now.getMinutes()).padStart(2, '0'),
-            'ss': String(now.getSeconds()).padStart(2, '0'),
-            'SSS': String(now.getMilliseconds()).padStart(3, '0'),
+        const raw = formatTimestamp(fmt);
+
+        return `[ ${raw} ]`;
+    }
+
+    // timers, counters and spans, similar to console.time and console.count
+
+    /** Starts a timer. Timers use `performance.now()` where available. */
+    time(label: string = 'default') {
+        if (this.#internal.timers.has(label)) {
+            console.warn(`Timer "${label}" already exists.`);
+            return;
+        }
+        this.#internal.timers.set(label, now());
+    }
+
+    /** Logs the time elapsed since `time(label)` without stopping the timer. The duration in milliseconds is added as the `duration` field. */
+    timeLog(label: string = 'default', ...values: any[]) {
+        const start = this.#internal.timers.get(label);
+        if (start === undefined) {
+            console.warn(`Timer "${label}" does not exist.`);
+            return;
+        }
+        const duration = now() - start;
+        return this.#write('info', `${label}:`, [formatDuration(duration), ...values, fields({ timer: label, duration })]);
+    }
+
+    /** Logs the time elapsed since `time(label)` and stops the timer. */
+    timeEnd(label: string = 'default', ...values: any[]) {
+        const entry = this.timeLog(label, ...values);
+        this.#internal.timers.delete(label);
+        return entry;
+    }
+
+    /** Logs how many times `count()` was called with this label. The count is added as the `count` field. */
+    count(label: string = 'default') {
+        const count = (this.#internal.counters.get(label) ?? 0) + 1;
+        this.#internal.counters.set(label, count);
+        return this.#write('info', `${label}:`, [count, fields({ counter: label, count })]);
+    }
+
+    countReset(label: string = 'default') {
+        this.#internal.counters.delete(label);
+    }
+
+    /**
+     * Runs a function inside a span, logging when it starts and ends, how long it took and whether it threw.
+     * Works with both synchronous and asynchronous functions and returns whatever the function returns.
+     * Nested spans are indented. The `span`, `duration` and `outcome` fields are added to the span's records.
+     * @example
+     * const rows = await logger.span('load users', () => db.query('SELECT * FROM users'));
+     */
+    span<T>(name: string, fn: () => T): T {
+        const depths = spanStore.get();
+        const depth = depths?.get(this) ?? 0;
+        const indent = '  '.repeat(depth);
+        const start = now();
+        this.#write('debug', `${indent}${cyan('▶')} ${name}`, [fields({ span: name, spanDepth: depth })]);
+
+        const end = (error?: unknown, failed = false) => {
+            const duration = now() - start;
+            const spanFields = fields({ span: name, spanDepth: depth, duration, outcome: failed ? 'error' : 'ok' });
+            if (failed) {
+                this.#write('error', `${indent}${red('✖')} ${name} failed`, [brightBlack(`(${formatDuration(duration)})`), error, spanFields]);
+            } else {
+                this.#write('debug', `${indent}${green('✔')} ${name}`, [brightBlack(`(${formatDuration(duration)})`), spanFields]);
+            }
         };
 
-        const raw = Object.entries(replacements).reduce(
-            (ts, [token, value]) => ts.replaceAll(token, value),
-            fmt
-        );
+        let result: T;
+        try {
+            result = spanStore.run(new Map(depths).set(this, depth + 1), fn);
+        } catch (error) {
+            end(error, true);
+            throw error;
+        }
 
-        return `[ ${raw} ]`;
+        if (result instanceof Promise) {
+            return result.then(
+                value => {
+                    end();
+                    return value;
+                },
+                error => {
+                    end(error, true);
+                    throw error;
+                },
+            ) as T;
+        }
+
+        end();
+        return result;
     }
 
-    // convenience methods for common log levels with appropriate styling
+    // convenience methods for common log levels, styled by the theme
+    // ok, good, bad and neutral only differ in color and are logged at the info level
+
+    fatal(strings: TemplateStringsArray | any, ...values: any[]) {
+        return this.#write('fatal', strings, values, { prefix: this.#levelStyle('fatal')("FATAL:") });
+    }
 
     error(strings: TemplateStringsArray | any, ...values: any[]) {
-        return this.log(bold(red("ERROR:")), strings, ...values);
+        return this.#write('error', strings, values, { prefix: this.#levelStyle('error')("ERROR:") });
     }
 
     bad(strings: TemplateStringsArray | any, ...values: any[]) {
-        return this.log(bold(red(strings)), ...values);
+        return this.#write('info', strings, values, { style: this.#levelStyle('bad') });
     }
 
     warn(strings: TemplateStringsArray | any, ...values: any[]) {
-        return this.log(bold(yellow(strings)), ...values);
+        return this.#write('warn', strings, values, { style: this.#levelStyle('warn') });
     }
 
     info(strings: TemplateStringsArray | any, ...values: any[]) {
-        return this.log(bold(brightBlue(strings)), ...values);
+        return this.#write('info', strings, values, { style: this.#levelStyle('info') });
     }
 
     debug(strings: TemplateStringsArray | any, ...values: any[]) {
-        return this.log(bold(cyan(strings)), ...values);
+        return this.#write('debug', strings, values, { style: this.#levelStyle('debug') });
+    }
+
+    trace(strings: TemplateStringsArray | any, ...values: any[]) {
+        return this.#write('trace', strings, values, { style: this.#levelStyle('trace') });
     }
 
     ok(strings: TemplateStringsArray | any, ...values: any[]) {
-        return this.log(bold(green(strings)), ...values);
+        return this.#write('info', strings, values, { style: this.#levelStyle('ok') });
     }
 
     good(strings: TemplateStringsArray | any, ...values: any[]) {
-        return this.log(bold(green(strings)), ...values);
+        return this.#write('info', strings, values, { style: this.#levelStyle('good') });
     }
 
     neutral(strings: TemplateStringsArray | any, ...values: any[]) {
-        return this.log(bold(white(strings)), ...values);
+        return this.#write('info', strings, values, { style: this.#levelStyle('neutral') });
     }
 }
 
@@ -499,51 +1901,54 @@ export const color256 = (n: number, text?: string): string => {
     return text === undefined ? colorCode : `${colorCode}${text}${ANSI.STYLE.reset}`;
 }
 
+/**
+ * Creates a style with an RGB background color. Unlike {@link rgb}, it returns a `StyleFn`,
+ * which can be called with text or interpolated into a string as the color code.
+ * @example bgRgb(40, 40, 40)(white(" status "))
+ */
+export const bgRgb = (r: number, g: number, b: number): StyleFn => makeStyle(ANSI.BG.RGB(r, g, b));
+
+/** Background counterpart of {@link color256}. */
+export const bg256 = (n: number): StyleFn => makeStyle(ANSI.BG["256"](n));
+
+const parseHex = (color: string) => {
+    const channels = hexToRgb(color);
+    if (!channels) {
+        throw new Error(`Invalid hex color "${color}", expected #rgb or #rrggbb.`);
+    }
+    return channels;
+};
+
+/**
+ * Creates a style from a hex color.
+ * @example hex('#ff8800')("Warning") or `${hex('#f80')}Warning${reset}`
+ * @throws For strings that are not `#rgb` or `#rrggbb`.
+ */
+export const hex = (color: string): StyleFn => makeStyle(ANSI.FG.RGB(...parseHex(color)));
+
+export const bgHex = (color: string): StyleFn => makeStyle(ANSI.BG.RGB(...parseHex(color)));
+
+/**
+ * Creates a style from an HSL color, with the same units as CSS.
+ * @param h Hue in degrees.
+ * @param s Saturation in percent.
+ * @param l Lightness in percent.
+ * @example hsl(210, 100, 60)("Info")
+ */
+export const hsl = (h: number, s: number, l: number): StyleFn => makeStyle(ANSI.FG.RGB(...hslToRgb(h, s / 100, l / 100)));
+
+export const bgHsl = (h: number, s: number, l: number): StyleFn => makeStyle(ANSI.BG.RGB(...hslToRgb(h, s / 100, l / 100)));
+
 /**
  * Renders a string with a rainbow gradient effect.
- * **Note!** Some terminals may not support 24-bit RGB colors, which can result in the rainbow effect not displaying correctly. In such cases, consider using the `rainbow16` function for better compatibility, as it uses a limited set of 16 colors that are widely supported across different terminal emulators.
+ * Falls back to `rainbow16` when the detected color support is below truecolor, see {@link ComfyLoggerSettings.getColorLevel}.
  */
 export const rainbow = (text: string): string => {
-    const hslToRgb = (h: number): [number, number, number] => {
-        const s = 1, l = 0.5;
-        const chroma = (1 - Math.abs(2 * l - 1)) * s;
-        const x = chroma * (1 - Math.abs((h / 60) % 2 - 1));
-        const m = l - chroma / 2;
-        let r = 0, g = 0, b = 0;
-        if (h < 60) { r = chroma; g = x; b = 0; }
-        else if (h < 120) { r = x; g = chroma; b = 0; }
-        else if (h < 180) { r = 0; g = chroma; b = x; }
-        else if (h < 240) { r = 0; g = x; b = chroma; }
-        else if (h < 300) { r = x; g = 0; b = chroma; }
-        else { r = chroma; g = 0; b = x; }
-        return [Math.round((r + m) * 255), Math.round((g + m) * 255), Math.round((b + m) * 255)];
-    };
-
-    // Tokenize: ANSI escape sequences pass through, only visible chars get colored
-    const ANSI_RE = /\x1b\[[0-9;]*m/g;
-    type Token = { ansi: true; value: string } | { ansi: false; value: string };
-    const tokens: Token[] = [];
-    let lastIndex = 0;
-    let match: RegExpExecArray | null;
-    while ((match = ANSI_RE.exec(text)) !== null) {
-        if (match.index > lastIndex) {
-            for (const ch of text.slice(lastIndex, match.index)) tokens.push({ ansi: false, value: ch });
-        }
-        tokens.push({ ansi: true, value: match[0] });
-        lastIndex = ANSI_RE.lastIndex;
-    }
-    if (lastIndex < text.length) {
-        for (const ch of text.slice(lastIndex)) tokens.push({ ansi: false, value: ch });
-    }
-
-    const visibleCount = tokens.filter(t => !t.ansi).length;
-    let charIndex = 0;
-    return tokens.map(token => {
-        if (token.ansi) return token.value;
-        const hue = (charIndex++ / Math.max(visibleCount - 1, 1)) * 360;
-        const [r, g, b] = hslToRgb(hue);
-        return `${ANSI.FG.RGB(r, g, b)}${token.value}`;
-    }).join('') + ANSI.STYLE.reset;
+    if (ComfyLoggerSettings.getColorLevel() < 3) {
+        return rainbow16(text);
+    }
+
+    return gradient('rainbow', text);
 }
 
 /**
@@ -560,28 +1965,7 @@ export const rainbow16 = (text: string): string => {
         ANSI.FG.Magenta, ANSI.FG.BrightMagenta,
     ];
 
-    // Tokenize: ANSI escape sequences pass through, only visible chars get colored
-    const ANSI_RE = /\x1b\[[0-9;]*m/g;
-    type Token = { ansi: true; value: string } | { ansi: false; value: string };
-    const tokens: Token[] = [];
-    let lastIndex = 0;
-    let match: RegExpExecArray | null;
-    while ((match = ANSI_RE.exec(text)) !== null) {
-        if (match.index > lastIndex) {
-            for (const ch of text.slice(lastIndex, match.index)) tokens.push({ ansi: false, value: ch });
-        }
-        tokens.push({ ansi: true, value: match[0] });
-        lastIndex = ANSI_RE.lastIndex;
-    }
-    if (lastIndex < text.length) {
-        for (const ch of text.slice(lastIndex)) tokens.push({ ansi: false, value: ch });
-    }
-
-    let charIndex = 0;
-    return tokens.map(token => {
-        if (token.ansi) return token.value;
-        return `${colors[charIndex++ % colors.length]}${token.value}`;
-    }).join('') + ANSI.STYLE.reset;
+    return colorChars(text, index => colors[index % colors.length]);
 }
 
 // x Styles
@@ -618,6 +2002,264 @@ export const hidden = makeStyle(ANSI.STYLE.hidden);
 
 export const strikethrough = makeStyle(ANSI.STYLE.strikethrough);
 
+/** Styles that markup can refer to by name, including the tag shorthands `b`, `i`, `u` and `s`. */
+export const markupStyles: Record<string, (text: string) => string> = {
+    black, red, green, yellow, blue, magenta, cyan, white, fgDefault,
+    brightBlack, brightRed, brightGreen, brightYellow, brightBlue, brightMagenta, brightCyan, brightWhite,
+    bgBlack, bgRed, bgGreen, bgYellow, bgBlue, bgMagenta, bgCyan, bgWhite,
+    bgBrightBlack, bgBrightRed, bgBrightGreen, bgBrightYellow, bgBrightBlue, bgBrightMagenta, bgBrightCyan, bgBrightWhite,
+    bold, dim, italic, underline, blink, inverse, hidden, strikethrough,
+    rainbow, rainbow16,
+    b: bold,
+    i: italic,
+    u: underline,
+    s: strikethrough,
+};
+
+/**
+ * Renders markup with the built-in styles.
+ * @example console.log(markup("<red><b>Error:</b> disk full</red>"))
+ */
+export const markup = (source: string): string => renderMarkup(source, { styles: markupStyles });
+
+/** Styles of the `{level}` layout token, by level name. Levels without a style are left plain. */
+export const defaultLevelStyles: Record<string, StyleFn> = {
+    trace: style(text => brightBlack(text)),
+    debug: style(text => bold(cyan(text))),
+    info: style(text => bold(brightBlue(text))),
+    warn: style(text => bold(yellow(text))),
+    error: style(text => bold(red(text))),
+    fatal: style(text => bold(bgRed(brightWhite(text)))),
+};
+
+/** Styles used for the layout tokens, see {@link LoggerRuntimeConfig.layout}. */
+export const defaultLayoutStyles: LayoutStyles = {
+    timestamp: brightBlack,
+    level: (text, record) => defaultLevelStyles[record.level]?.(text) ?? text,
+    name: magenta,
+    tags: brightBlack,
+    fields: brightBlack,
+};
+
+/** Colors used by the inspector when rendering objects in log messages, see {@link LoggerRuntimeConfig.inspect}. */
+export const defaultInspectStyles: InspectStyles = {
+    key: brightCyan,
+    string: green,
+    number: yellow,
+    bigint: yellow,
+    boolean: yellow,
+    null: bold,
+    undefined: brightBlack,
+    symbol: green,
+    date: magenta,
+    regexp: red,
+    special: cyan,
+    name: bold,
+};
+
+/**
+ * Styles for everything the logger colors on its own. Any part can be left out to keep the default theme's styles for it.
+ * @example
+ * const theme: Theme = { levels: { info: hex('#5fafff') }, classes: { accent: style(text => bold(hex('#ff8800')(text))) } };
+ */
+export type Theme = {
+    name?: string;
+    /**
+     * Styles of the messages logged with the level methods and with `ok`, `good`, `bad` and `neutral`, by method name.
+     * `error` and `fatal` only style their `ERROR:` and `FATAL:` prefix. The styles of the levels also apply to the `{level}` layout token.
+     */
+    levels?: Record<string, (text: string) => string>;
+    /** Styles of the layout tokens, see {@link LoggerRuntimeConfig.layout}. */
+    layout?: LayoutStyles;
+    /** Styles of the inspector, see {@link LoggerRuntimeConfig.inspect}. */
+    inspect?: InspectStyles;
+    /** Named styles, attached to the logger as methods like those registered with `class()`, and usable in markup. */
+    classes?: Record<string, StyleFn>;
+};
+
+/**
+ * A style in a {@link ThemeDefinition}: either style names separated by spaces or dots as in markup, e.g. `"bold #ff8800"`,
+ * or an object such as `{ "fg": "#ff8800", "bg": "black", "bold": true }` with any of the modifiers set to `true`.
+ */
+export type ThemeStyleSpec = string | {
+    fg?: string;
+    bg?: string;
+    bold?: boolean;
+    dim?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+    inverse?: boolean;
+    strikethrough?: boolean;
+};
+
+/** A theme as plain data, e.g. read from a JSON file. See {@link loadTheme}. */
+export type ThemeDefinition = {
+    name?: string;
+    levels?: Record<string, ThemeStyleSpec>;
+    layout?: Partial<Record<Exclude<LayoutToken, 'message'>, ThemeStyleSpec>>;
+    inspect?: Partial<Record<InspectTokenType, ThemeStyleSpec>>;
+    classes?: Record<string, ThemeStyleSpec>;
+};
+
+const themeStyle = (spec: unknown, path: string): StyleFn => {
+    let names: string[];
+    if (typeof spec === 'string') {
+        names = spec.split(/[\s.]+/).filter(Boolean);
+    } else if (typeof spec === 'object' && spec !== null && !Array.isArray(spec)) {
+        const { fg, bg, ...modifiers } = spec as Record<string, unknown>;
+        if ((fg !== undefined && typeof fg !== 'string') || (bg !== undefined && typeof bg !== 'string')) {
+            throw new Error(`Invalid style for "${path}" in theme, "fg" and "bg" must be strings.`);
+        }
+        names = [
+            ...(fg ? [fg] : []),
+            ...(bg ? [bg.startsWith('#') ? `bg${bg}` : bg.startsWith('rgb(') ? `bgRgb${bg.slice(3)}` : `bg${bg[0].toUpperCase()}${bg.slice(1)}`] : []),
+            ...Object.keys(modifiers).filter(name => modifiers[name]),
+        ];
+    } else {
+        throw new Error(`Invalid style for "${path}" in theme, expected a string or an object.`);
+    }
+
+    const styles = names.map(name => {
+        const styleFn = resolveStyle(name, markupStyles);
+        if (!styleFn) {
+            throw new Error(`Unknown style "${name}" for "${path}" in theme.`);
+        }
+        return styleFn;
+    });
+    return style(text => styles.reduceRight((result, styleFn) => styleFn(result), text));
+};
+
+const themeSections = {
+    levels: undefined,
+    layout: ['timestamp', 'level', 'name', 'tags', 'fields'],
+    inspect: ['key', 'string', 'number', 'bigint', 'boolean', 'null', 'undefined', 'symbol', 'date', 'regexp', 'special', 'name'],
+    classes: undefined,
+} satisfies Record<Exclude<keyof ThemeDefinition, 'name'>, string[] | undefined>;
+
+/**
+ * Creates a theme from plain data or JSON text. Colors can be given as names, `#rrggbb` or `rgb(r,g,b)`.
+ * @throws For invalid JSON, unknown style names and unknown layout or inspector tokens.
+ * @example
+ * logger.configure({ theme: loadTheme({ levels: { info: "bold #5fafff", warn: { fg: "#ffaf00", underline: true } } }) });
+ */
+export const loadTheme = (definition: ThemeDefinition | string): Theme => {
+    let data: unknown = definition;
+    if (typeof definition === 'string') {
+        try {
+            data = JSON.parse(definition);
+        } catch (error) {
+            throw new Error(`Invalid theme JSON: ${(error as Error).message}`);
+        }
+    }
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        throw new Error('A theme must be an object.');
+    }
+
+    const theme: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(data)) {
+        if (key === 'name') {
+            theme.name = String(value);
+            continue;
+        }
+        if (!Object.prototype.hasOwnProperty.call(themeSections, key)) {
+            throw new Error(`Unknown section "${key}" in theme, expected one of name, ${Object.keys(themeSections).join(', ')}.`);
+        }
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            throw new Error(`The "${key}" section of a theme must be an object.`);
+        }
+
+        const known: string[] | undefined = themeSections[key as keyof typeof themeSections];
+        theme[key] = Object.fromEntries(Object.entries(value).map(([name, spec]) => {
+            if (known && !known.includes(name)) {
+                throw new Error(`Unknown ${key} token "${name}" in theme, expected one of ${known.join(', ')}.`);
+            }
+            return [name, themeStyle(spec, `${key}.${name}`)];
+        }));
+    }
+    return theme as Theme;
+};
+
+/**
+ * Built-in themes, which can be selected by name with `configure({ theme })`:
+ * - `default`: bright colors for dark terminals
+ * - `light`: darker colors that stay readable on a light background
+ * - `monochrome`: bold, dim, underline and inverse only, for terminals and logs where colors are unwanted
+ */
+export const themes = {
+    default: {
+        name: 'default',
+        levels: {
+            ...defaultLevelStyles,
+            ok: style(text => bold(green(text))),
+            good: style(text => bold(green(text))),
+            bad: style(text => bold(red(text))),
+            neutral: style(text => bold(white(text))),
+        },
+        layout: defaultLayoutStyles,
+        inspect: defaultInspectStyles,
+        classes: {},
+    } as Theme & { levels: Record<string, (text: string) => string> },
+    light: loadTheme({
+        name: 'light',
+        levels: {
+            trace: 'dim',
+            debug: 'bold #0087af',
+            info: 'bold blue',
+            warn: 'bold #af5f00',
+            error: 'bold red',
+            fatal: 'bold bgRed brightWhite',
+            ok: 'bold #008700',
+            good: 'bold #008700',
+            bad: 'bold red',
+            neutral: 'bold black',
+        },
+        layout: { timestamp: 'dim', name: 'magenta', tags: 'dim', fields: 'dim' },
+        inspect: {
+            key: '#005f87',
+            string: '#008700',
+            number: '#af5f00',
+            bigint: '#af5f00',
+            boolean: '#af5f00',
+            undefined: 'dim',
+            symbol: '#008700',
+            regexp: 'red',
+            special: '#0087af',
+        },
+    }),
+    monochrome: loadTheme({
+        name: 'monochrome',
+        levels: {
+            trace: 'dim',
+            debug: 'dim',
+            info: '',
+            warn: 'bold',
+            error: 'bold',
+            fatal: 'bold inverse',
+            ok: 'bold',
+            good: 'bold',
+            bad: 'bold underline',
+            neutral: '',
+        },
+        layout: { timestamp: 'dim', name: 'bold', tags: 'dim', fields: 'dim' },
+        inspect: {
+            key: '',
+            string: '',
+            number: '',
+            bigint: '',
+            boolean: '',
+            null: 'bold',
+            undefined: 'dim',
+            symbol: '',
+            date: '',
+            regexp: '',
+            special: 'italic',
+            name: 'bold',
+        },
+    }),
+} satisfies Record<string, Theme>;
+
+export type ThemeName = keyof typeof themes;
+
 /**
  * Default global logger singleton instance.
  * Appropriate for general use in most cases.
@@ -636,8 +2278,12 @@ export const [
 
 export default {
     style,
+    fields,
     logger,
     ComfyLogger,
+    ConsoleTransport,
+    HttpTransport,
+    LogLevels,
     log,
     addEventListener,
     configure,
@@ -677,6 +2323,15 @@ export default {
     bgDefault: ANSI.BG.Default,
     rgb,
     color256: color256,
+    bgRgb,
+    bg256,
+    hex,
+    bgHex,
+    hsl,
+    bgHsl,
+    gradient,
+    themes,
+    loadTheme,
     rainbow,
     rainbow16,
     bold,
@@ -0,0 +1,56 @@
+import type { LogEntry } from '../logger.js';
+import { getActiveLiveRegion } from '../live/region.js';
+import { ansiToConsoleArgs } from '../util/css.js';
+import { ANSI_SEQUENCE_RE } from '../util/sgr.js';
+import type { Transport, TransportFormatter, TransportOptions } from './transport.js';
+
+/**
+ * How styled text is passed to the console:
+ * - `ansi`: as ANSI escape sequences, for terminals
+ * - `css`: as `%c` directives with CSS, for browser DevTools
+ * - `auto`: `css` when there is no `process` global, `ansi` otherwise
+ */
+export type ConsoleRenderMode = 'auto' | 'ansi' | 'css';
+
+export type ConsoleTransportOptions = TransportOptions & {
+    render?: ConsoleRenderMode;
+};
+
+/** Resolves `auto` to the render mode that suits the current environment. */
+export const detectConsoleRender = (): Exclude<ConsoleRenderMode, 'auto'> =>
+    typeof process === 'undefined' ? 'css' : 'ansi';
+
+/**
+ * Writes entries to the console with `console.log`.
+ * Loggers use a shared instance of this transport when `options.console` is enabled.
+ * While a {@link LiveRegion} is drawn on the terminal, lines are printed above it instead.
+ */
+export class ConsoleTransport implements Transport {
+    level?: TransportOptions['level'];
+    tags?: string[];
+    excludeTags?: string[];
+    format?: TransportFormatter;
+    render: ConsoleRenderMode;
+
+    constructor(options: ConsoleTransportOptions = {}) {
+        this.level = options.level;
+        this.tags = options.tags;
+        this.excludeTags = options.excludeTags;
+        this.format = options.format;
+        this.render = options.render ?? 'auto';
+    }
+
+    write(line: string, _entry: LogEntry) {
+        const render = this.render === 'auto' ? detectConsoleRender() : this.render;
+
+        // lines without escape sequences are logged as-is, so that a literal "%c" is not mistaken for a directive
+        const region = getActiveLiveRegion();
+        if (render === 'css' && new RegExp(ANSI_SEQUENCE_RE.source).test(line)) {
+            console.log(...ansiToConsoleArgs(line));
+        } else if (region) {
+            region.print(line);
+        } else {
+            console.log(line);
+        }
+    }
+}
@@ -0,0 +1,198 @@
+import { createReadStream, createWriteStream, existsSync, mkdirSync, openSync, readdirSync, renameSync, statSync, unlinkSync, type WriteStream } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import { createGzip } from 'node:zlib';
+import type { LogEntry } from '../logger.js';
+import { formatTimestamp, timestampTokens } from '../util/time.js';
+import type { Transport, TransportFormatter, TransportOptions } from './transport.js';
+
+export type FileTransportOptions = TransportOptions & {
+    /**
+     * Path of the log file. Parts of the file name in braces may contain the tokens of `timestamp()`
+     * (`YYYY`, `MM`, `DD`, `HH`, `mm`, `ss`, `SSS`), which are filled in with the date the file was opened,
+     * e.g. `logs/app-{YYYY-MM-DD}.log`. Text outside of braces is used as is, so `access.log` stays `access.log`.
+     * Tokens are only supported in the file name, not in the directory part of the path.
+     */
+    filename: string;
+    /** Rotates the file once it grows beyond this many bytes. */
+    maxSize?: number;
+    /** Rotates the file when the local date changes. */
+    daily?: boolean;
+    /** Maximum number of rotated files to keep, the oldest ones are deleted first. Keeps all files by default. */
+    maxFiles?: number;
+    /** Compresses rotated files with gzip. */
+    compress?: boolean;
+};
+
+const TOKEN_RE = new RegExp(Object.keys(timestampTokens).join('|'), 'g');
+const DATE_RE = /\{([^{}]*)\}/g;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Fills in the date tokens inside the braces of a file name, e.g. `app-{YYYY-MM-DD}.log` → `app-2024-01-31.log`. */
+const formatFilename = (name: string, date: Date) => name.replace(DATE_RE, (_, format: string) => formatTimestamp(format, date));
+
+/** A pattern source matching the names `formatFilename()` produces for any date. */
+const filenamePattern = (name: string) => name
+    .split(DATE_RE)
+    .map((part, i) => i % 2 === 0
+        ? escapeRegExp(part)
+        : escapeRegExp(part).replace(TOKEN_RE, token => `\\d{${timestampTokens[token as keyof typeof timestampTokens]}}`))
+    .join('');
+
+/**
+ * Writes entries to a file through a buffered stream, one entry per line, rotating the file by size or by day.
+ * Rotated files get a timestamp suffix (`app.log.20240131-235959-999`), unless the file name already contains
+ * a date and the date changed, in which case the old file keeps its name.
+ *
+ * This transport only works in Node and is imported from `comfylogger/file`, so browser builds never load it.
+ * @example
+ * import { FileTransport } from 'comfylogger/file';
+ * logger.configure({
+ *     transports: [new FileTransport({ filename: 'logs/app-{YYYY-MM-DD}.log', daily: true, maxSize: 10_000_000, maxFiles: 14, compress: true })],
+ * });
+ */
+export class FileTransport implements Transport {
+    level?: TransportOptions['level'];
+    tags?: string[];
+    excludeTags?: string[];
+    format: TransportFormatter;
+
+    options: FileTransportOptions;
+
+    #stream?: WriteStream;
+    #path?: string;
+    #size = 0;
+    #day?: string;
+    /** Rotated files that still have to be closed or compressed, they are never pruned. */
+    #rotating = new Set<string>();
+    /** Closing, compressing and pruning of rotated files happens one rotation at a time. */
+    #tasks: Promise<void> = Promise.resolve();
+
+    constructor(options: FileTransportOptions) {
+        this.options = options;
+        this.level = options.level;
+        this.tags = options.tags;
+        this.excludeTags = options.excludeTags;
+        this.format = options.format ?? 'text';
+    }
+
+    /** Path of the file currently being written to, or the last one written to after the transport was closed. */
+    get path(): string | undefined {
+        return this.#path;
+    }
+
+    write(line: string, _entry: LogEntry) {
+        const now = new Date();
+        const data = line + '\n';
+        const size = Buffer.byteLength(data);
+
+        if (this.#stream) {
+            const dayChanged = this.options.daily && this.#day !== formatTimestamp('YYYY-MM-DD', now);
+            const tooLarge = this.options.maxSize !== undefined && this.#size > 0 && this.#size + size > this.options.maxSize;
+            if (dayChanged || tooLarge) {
+                this.#rotate(now);
+            }
+        }
+
+        const stream = this.#stream ?? this.#open(now);
+        stream.write(data);
+        this.#size += size;
+    }
+
+    /** Waits until everything written so far has reached the file and pending compressions are done. */
+    async flush() {
+        const stream = this.#stream;
+        if (stream) {
+            await new Promise<void>(resolve => stream.write('', () => resolve()));
+        }
+
+        await this.#settled();
+    }
+
+    async close() {
+        const stream = this.#stream;
+        this.#stream = undefined;
+        if (stream) {
+            await new Promise<void>(resolve => stream.end(() => resolve()));
+        }
+
+        await this.#settled();
+    }
+
+    async #settled() {
+        let tasks: Promise<void>;
+        do {
+            tasks = this.#tasks;
+            await tasks;
+        } while (tasks !== this.#tasks);
+    }
+
+    #open(now: Date): WriteStream {
+        const path = join(dirname(this.options.filename), formatFilename(basename(this.options.filename), now));
+        mkdirSync(dirname(path), { recursive: true });
+
+        this.#path = path;
+        this.#size = existsSync(path) ? statSync(path).size : 0;
+        this.#day = formatTimestamp('YYYY-MM-DD', now);
+        // opened synchronously, so that the file exists in case it is rotated before the stream is ready
+        this.#stream = createWriteStream(path, { fd: openSync(path, 'a') });
+        this.#stream.on('error', error => console.error("Error in file transport:", error));
+
+        return this.#stream;
+    }
+
+    #rotate(now: Date) {
+        const stream = this.#stream!;
+        const path = this.#path!;
+        this.#stream = undefined;
+
+        const nextPath = join(dirname(this.options.filename), formatFilename(basename(this.options.filename), now));
+        let rotatedPath = path;
+        if (nextPath === path) {
+            // the stream keeps writing to the renamed file until it is closed
+            rotatedPath = `${path}.${formatTimestamp('YYYYMMDD-HHmmss-SSS', now)}`;
+            for (let i = 1; existsSync(rotatedPath) || existsSync(`${rotatedPath}.gz`); i++) {
+                rotatedPath = `${path}.${formatTimestamp('YYYYMMDD-HHmmss-SSS', now)}-${i}`;
+            }
+            renameSync(path, rotatedPath);
+        }
+
+        this.#rotating.add(rotatedPath);
+        const closed = new Promise<void>(resolve => stream.end(() => resolve()));
+        this.#tasks = this.#tasks
+            .then(() => closed)
+            .then(() => this.options.compress ? this.#compress(rotatedPath) : undefined)
+            .finally(() => this.#rotating.delete(rotatedPath))
+            .then(() => this.#prune())
+            .catch(error => console.error("Error while rotating log file:", error));
+    }
+
+    async #compress(path: string) {
+        await pipeline(createReadStream(path), createGzip(), createWriteStream(`${path}.gz`));
+        unlinkSync(path);
+    }
+
+    /** Deletes the oldest rotated files beyond `maxFiles`. */
+    #prune() {
+        const { maxFiles } = this.options;
+        if (maxFiles === undefined) {
+            return;
+        }
+
+        const directory = dirname(this.options.filename);
+        const pattern = filenamePattern(basename(this.options.filename));
+        const rotatedRe = new RegExp(`^${pattern}(\\.\\d{8}-\\d{6}-\\d{3}(-\\d+)?)?(\\.gz)?$`);
+
+        const rotated = readdirSync(directory)
+            .map(name => join(directory, name))
+            .filter(path => path !== this.#path && rotatedRe.test(basename(path)))
+            .filter(path => !this.#rotating.has(path) && !this.#rotating.has(path.replace(/\.gz$/, '')))
+            .map(path => ({ path, mtime: statSync(path).mtimeMs }))
+            .sort((a, b) => b.mtime - a.mtime || b.path.localeCompare(a.path));
+
+        for (const { path } of rotated.slice(maxFiles)) {
+            unlinkSync(path);
+        }
+    }
+}
@@ -0,0 +1,315 @@
+import type { ComfyLoggerExternalLoggingOptions, LogEntry } from '../logger.js';
+import type { Transport, TransportFormatter, TransportOptions } from './transport.js';
+
+export type HttpTransportOptions = TransportOptions & ComfyLoggerExternalLoggingOptions;
+
+/** Thrown for responses that are not ok, so that they go through the same retry logic as network errors. */
+export class HttpTransportError extends Error {
+    status: number;
+
+    constructor(status: number, statusText: string) {
+        super(`External logging request failed with status ${status} ${statusText}`.trim());
+        this.name = 'HttpTransportError';
+        this.status = status;
+    }
+}
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/** Client errors other than rate limiting will not go away by sending the same batch again. */
+const isRetryable = (error: unknown) =>
+    !(error instanceof HttpTransportError) || error.status === 429 || error.status >= 500;
+
+/**
+ * Sends entries to a remote endpoint with `fetch`, in batches.
+ * Entries are queued and sent once `batchSize` entries are waiting or `flushInterval` milliseconds have passed,
+ * failed requests are retried with exponential backoff, and the queue is bounded by `maxQueueSize`.
+ * Loggers create one of these from `options.externalLogging`.
+ */
+export class HttpTransport implements Transport {
+    level?: TransportOptions['level'];
+    tags?: string[];
+    excludeTags?: string[];
+    format: TransportFormatter;
+
+    options: HttpTransportOptions;
+
+    /** Number of entries that were dropped because the queue was full or a batch could not be delivered. */
+    dropped = 0;
+
+    /** Transports that send what is left when the process exits. One set of process listeners serves all of them. */
+    static #exitTransports = new Set<HttpTransport>();
+    static #removeProcessListeners?: () => void;
+
+    #queue: string[] = [];
+    /** Entries dropped from the full queue since the last report, they are reported together with the next batch. */
+    #unreportedDrops = 0;
+    #pending = new Set<Promise<void>>();
+    #timer?: ReturnType<typeof setTimeout>;
+    #removeExitHandler?: () => void;
+
+    constructor(options: HttpTransportOptions) {
+        this.options = options;
+        this.level = options.level;
+        this.tags = options.tags;
+        this.excludeTags = options.excludeTags;
+        this.format = options.format ?? 'json';
+    }
+
+    /** Number of entries waiting to be sent. */
+    get queued() {
+        return this.#queue.length;
+    }
+
+    write(line: string, _entry: LogEntry) {
+        const { maxQueueSize = 1000, dropPolicy = 'oldest', batchSize = 50 } = this.options;
+
+        if (this.#queue.length >= maxQueueSize) {
+            if (dropPolicy === 'newest') {
+                this.#drop(1);
+                return;
+            }
+            this.#queue.shift();
+            this.#drop(1);
+        }
+
+        this.#queue.push(line);
+        this.#listenForExit();
+
+        if (this.#queue.length >= batchSize) {
+            this.#sendQueued();
+        } else {
+            this.#schedule();
+        }
+    }
+
+    /** Sends everything that is queued and waits until all requests, including their retries, have settled. */
+    async flush() {
+        this.#sendQueued(true);
+        while (this.#pending.size > 0) {
+            await Promise.all(this.#pending);
+        }
+    }
+
+    async close() {
+        await this.flush();
+        this.#removeExitHandler?.();
+        this.#removeExitHandler = undefined;
+
+        HttpTransport.#exitTransports.delete(this);
+        if (HttpTransport.#exitTransports.size === 0) {
+            HttpTransport.#removeProcessListeners?.();
+        }
+    }
+
+    #schedule() {
+        if (this.#timer !== undefined) {
+            return;
+        }
+
+        this.#timer = setTimeout(() => {
+            this.#timer = undefined;
+            this.#sendQueued(true);
+        }, this.options.flushInterval ?? 1000);
+
+        // a pending batch should not keep a Node process alive, the exit handler takes care of it
+        (this.#timer as { unref?: () => void }).unref?.();
+    }
+
+    /** Sends full batches, and the remaining partial batch as well if `all` is set. */
+    #sendQueued(all = false) {
+        const batchSize = Math.max(1, this.options.batchSize ?? 50);
+        this.#reportDrops();
+
+        while (this.#queue.length >= batchSize || (all && this.#queue.length > 0)) {
+            const batch = this.#queue.splice(0, batchSize);
+            const request = this.#send(batch);
+            this.#pending.add(request);
+            request.finally(() => this.#pending.delete(request));
+        }
+
+        if (this.#queue.length === 0 && this.#timer !== undefined) {
+            clearTimeout(this.#timer);
+            this.#timer = undefined;
+        } else if (this.#queue.length > 0) {
+            this.#schedule();
+        }
+    }
+
+    async #send(batch: string[]) {
+        const { url, headers = {}, method = 'POST', retries = 3, retryDelay = 500, maxRetryDelay = 30000, timeout = 10000 } = this.options;
+        let body: string;
+        try {
+            body = this.#encode(batch);
+        } catch (error) {
+            this.dropped += batch.length;
+            this.#reportError(error);
+            return;
+        }
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                const controller = new AbortController();
+                const timer = setTimeout(() => controller.abort(new Error(`External logging request timed out after ${timeout}ms`)), timeout);
+                let response: Response;
+                try {
+                    response = await fetch(url, {
+                        method,
+                        headers: {
+                            'Content-Type': 'application/json',
+                            ...headers,
+                        },
+                        body,
+                        signal: controller.signal,
+                    });
+                } finally {
+                    clearTimeout(timer);
+                }
+
+                if (!response.ok) {
+                    throw new HttpTransportError(response.status, response.statusText);
+                }
+
+                return;
+            } catch (error) {
+                if (attempt >= retries || !isRetryable(error)) {
+                    this.dropped += batch.length;
+                    this.#reportError(error);
+                    return;
+                }
+
+                await wait(Math.min(retryDelay * 2 ** attempt, maxRetryDelay));
+            }
+        }
+    }
+
+    #encode(batch: string[]) {
+        if (this.options.encodeBatch) {
+            return this.options.encodeBatch(batch);
+        }
+
+        return this.format === 'json'
+            ? `[${batch.join(',')}]`
+            : JSON.stringify(batch);
+    }
+
+    #drop(count: number) {
+        this.dropped += count;
+        this.#unreportedDrops += count;
+    }
+
+    #reportDrops() {
+        const count = this.#unreportedDrops;
+        if (count > 0) {
+            this.#unreportedDrops = 0;
+            this.#reportError(new Error(`External logging queue is full, dropped ${count} ${count === 1 ? 'entry' : 'entries'}.`));
+        }
+    }
+
+    #reportError(error: unknown) {
+        if (this.options.onError) {
+            this.options.onError(error);
+        } else {
+            console.error("Error in external logging:", error);
+        }
+    }
+
+    /** Registers the exit handler lazily, so that transports which never log do not hook into the process or page. */
+    #listenForExit() {
+        if (this.options.flushOnExit === false) {
+            return;
+        }
+
+        if (typeof process !== 'undefined' && typeof process.on === 'function') {
+            HttpTransport.#exitTransports.add(this);
+            HttpTransport.#listenToProcess();
+        } else if (!this.#removeExitHandler && typeof window !== 'undefined' && typeof window.addEventListener === 'function') {
+            // requests started while the page unloads are usually cancelled, beacons are not
+            const onHide = () => {
+                if (document.visibilityState === 'hidden' || !document.visibilityState) {
+                    this.#beacon();
+                }
+            };
+            window.addEventListener('pagehide', onHide);
+            document.addEventListener('visibilitychange', onHide);
+            this.#removeExitHandler = () => {
+                window.removeEventListener('pagehide', onHide);
+                document.removeEventListener('visibilitychange', onHide);
+            };
+        }
+    }
+
+    static #flushAll() {
+        return Promise.all([...HttpTransport.#exitTransports].map(transport => transport.flush()));
+    }
+
+    static #listenToProcess() {
+        if (HttpTransport.#removeProcessListeners) {
+            return;
+        }
+
+        // beforeExit still allows asynchronous work, unlike exit
+        const onBeforeExit = () => {
+            void HttpTransport.#flushAll();
+        };
+        // by then only synchronous code runs, so whatever is left can only be reported
+        const onExit = () => {
+            for (const transport of HttpTransport.#exitTransports) {
+                transport.#reportDrops();
+                const count = transport.#queue.length;
+                if (count > 0) {
+                    transport.#queue = [];
+                    transport.dropped += count;
+                    transport.#reportError(new Error(`The process exited before ${count} ${count === 1 ? 'entry was' : 'entries were'} sent, await flush() before process.exit().`));
+                }
+            }
+        };
+        // listening to a signal replaces its default of ending the process, so it is raised again once everything is sent
+        const onSignal = (signal: NodeJS.Signals) => {
+            void HttpTransport.#flushAll().finally(() => {
+                HttpTransport.#removeProcessListeners?.();
+                if (process.listenerCount(signal) === 0) {
+                    process.kill(process.pid, signal);
+                }
+            });
+        };
+
+        process.on('beforeExit', onBeforeExit);
+        process.on('exit', onExit);
+        process.on('SIGINT', onSignal);
+        process.on('SIGTERM', onSignal);
+        HttpTransport.#removeProcessListeners = () => {
+            process.removeListener('beforeExit', onBeforeExit);
+            process.removeListener('exit', onExit);
+            process.removeListener('SIGINT', onSignal);
+            process.removeListener('SIGTERM', onSignal);
+            HttpTransport.#removeProcessListeners = undefined;
+        };
+    }
+
+    #beacon() {
+        this.#reportDrops();
+        if (this.#queue.length === 0) {
+            return;
+        }
+
+        if (typeof navigator === 'undefined' || typeof navigator.sendBeacon !== 'function') {
+            this.#sendQueued(true);
+            return;
+        }
+
+        const batch = this.#queue.splice(0);
+        let body: Blob;
+        try {
+            body = new Blob([this.#encode(batch)], { type: 'application/json' });
+        } catch (error) {
+            this.dropped += batch.length;
+            this.#reportError(error);
+            return;
+        }
+
+        if (!navigator.sendBeacon(this.options.url, body)) {
+            this.dropped += batch.length;
+        }
+    }
+}
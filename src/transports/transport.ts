@@ -0,0 +1,103 @@
+import type { LogEntry, LogLevel } from '../logger.js';
+import { downgradeAnsi, type ColorLevel } from '../util/color.js';
+import { isError } from '../util/errors.js';
+import { safeStringify, toLogfmt, toSerializable } from '../util/serialize.js';
+
+/**
+ * Built-in output formats:
+ * - `ansi`: the rendered message including ANSI codes
+ * - `text`: the rendered message with all ANSI codes removed
+ * - `json`: one JSON object per entry (NDJSON), containing the message without layout or ANSI codes and the record's metadata.
+ *   Errors among the arguments are included as `error`, and as an `errors` array when there is more than one
+ * - `logfmt`: one line of `key=value` pairs per entry, containing the same information as `json`
+ */
+export type TransportFormat = 'ansi' | 'text' | 'json' | 'logfmt';
+
+export type TransportFormatter = TransportFormat | ((entry: LogEntry) => string);
+
+/**
+ * An output that log entries are written to. Every logger can hold several transports,
+ * each with its own level, tag filter and format.
+ * @example
+ * const memory: string[] = [];
+ * logger.configure({
+ *     transports: [{ level: 'warn', format: 'json', write: line => memory.push(line) }],
+ * });
+ */
+export type Transport = {
+    /** Minimum severity of the entries written to this transport, in addition to the logger's own threshold. */
+    level?: LogLevel | number;
+    /** If set, only entries from loggers with at least one of these tags are written. */
+    tags?: string[];
+    /** Entries from loggers with any of these tags are skipped. */
+    excludeTags?: string[];
+    /** How entries are turned into the `line` passed to `write`. Defaults to the logger's `format`. */
+    format?: TransportFormatter;
+    write(line: string, entry: LogEntry): void;
+    /** Waits until everything written so far has been delivered. */
+    flush?(): Promise<void>;
+    /** Flushes and releases any resources held by the transport. */
+    close?(): Promise<void>;
+};
+
+/** Options shared by all built-in transports. */
+export type TransportOptions = Pick<Transport, 'level' | 'tags' | 'excludeTags' | 'format'>;
+
+/**
+ * Turns an entry into a line of output.
+ * @param colorLevel Color support of the output, the `ansi` format is downgraded to it. Defaults to truecolor.
+ */
+export const formatEntry = (entry: LogEntry, format: TransportFormatter = 'ansi', colorLevel: ColorLevel = 3): string => {
+    if (typeof format === 'function') {
+        return format(entry);
+    }
+
+    // errors passed as arguments are included as structured data, with their stack, causes and properties:
+    // the first one as `error`, and all of them as `errors` when there are several
+    const allErrors = entry.args.filter(isError);
+    const error = allErrors[0];
+    const errors = allErrors.length > 1 ? allErrors : undefined;
+
+    switch (format) {
+        case 'ansi':
+            return downgradeAnsi(entry.output, colorLevel);
+        case 'text':
+            return entry.stripped;
+        case 'json':
+            return safeStringify({
+                timestamp: new Date(entry.timestamp).toISOString(),
+                level: entry.level,
+                levelValue: entry.levelValue,
+                name: entry.name,
+                tags: entry.tags,
+                message: entry.message,
+                error,
+                errors,
+                fields: entry.fields,
+            });
+        case 'logfmt':
+            return toLogfmt({
+                timestamp: new Date(entry.timestamp).toISOString(),
+                level: entry.level,
+                name: entry.name,
+                tags: entry.tags.length > 0 ? entry.tags.join(',') : undefined,
+                msg: entry.message,
+                error: error && toSerializable(error),
+                errors: errors && toSerializable(errors),
+                ...entry.fields,
+            });
+    }
+}
+
+/** Checks a transport's tag filter against the tags of an entry. */
+export const matchesTags = (transport: Transport, tags: string[]): boolean => {
+    if (transport.excludeTags?.some(tag => tags.includes(tag))) {
+        return false;
+    }
+
+    if (transport.tags && transport.tags.length > 0) {
+        return transport.tags.some(tag => tags.includes(tag));
+    }
+
+    return true;
+}
@@ -58,6 +58,26 @@ export const ANSI = {
         noHidden: `\x1b[28m`,
         noStrikethrough: `\x1b[29m`,
     },
+    CURSOR: {
+        up: (n: number = 1) => `\x1b[${n}A`,
+        down: (n: number = 1) => `\x1b[${n}B`,
+        forward: (n: number = 1) => `\x1b[${n}C`,
+        back: (n: number = 1) => `\x1b[${n}D`,
+        /** Moves the cursor to a 1-based column of the current line. */
+        toColumn: (n: number = 1) => `\x1b[${n}G`,
+        hide: `\x1b[?25l`,
+        show: `\x1b[?25h`,
+        save: `\x1b7`,
+        restore: `\x1b8`,
+    },
+    ERASE: {
+        line: `\x1b[2K`,
+        lineEnd: `\x1b[0K`,
+        lineStart: `\x1b[1K`,
+        /** Erases from the cursor to the end of the screen. */
+        down: `\x1b[0J`,
+        screen: `\x1b[2J`,
+    },
 } as const;
 
 export default { ANSI };
\ No newline at end of file
@@ -0,0 +1,227 @@
+import { pad, visibleLength, type Alignment } from './text.js';
+
+export type BorderStyle = 'single' | 'double' | 'rounded' | 'heavy' | 'ascii' | 'none';
+
+/** Characters a border is drawn with: lines, corners, and the tees and cross where inner lines meet. */
+export type BorderChars = {
+    horizontal: string;
+    vertical: string;
+    topLeft: string;
+    topRight: string;
+    bottomLeft: string;
+    bottomRight: string;
+    topTee: string;
+    bottomTee: string;
+    leftTee: string;
+    rightTee: string;
+    cross: string;
+};
+
+const chars = (s: string): BorderChars => {
+    const [horizontal, vertical, topLeft, topRight, bottomLeft, bottomRight, topTee, bottomTee, leftTee, rightTee, cross] = [...s];
+    return { horizontal, vertical, topLeft, topRight, bottomLeft, bottomRight, topTee, bottomTee, leftTee, rightTee, cross };
+};
+
+export const borderStyles: Record<Exclude<BorderStyle, 'none'>, BorderChars> = {
+    single: chars('─│┌┐└┘┬┴├┤┼'),
+    double: chars('═║╔╗╚╝╦╩╠╣╬'),
+    rounded: chars('─│╭╮╰╯┬┴├┤┼'),
+    heavy: chars('━┃┏┓┗┛┳┻┣┫╋'),
+    ascii: chars('-|+++++++++'),
+};
+
+const identity = (text: string) => text;
+
+export type TableOptions = {
+    /** Column headings. Defaults to the keys of the first row when rows are objects. */
+    head?: string[];
+    /** Defaults to `single`. */
+    border?: BorderStyle;
+    /** Styles the border, e.g. `brightBlack`. */
+    borderColor?: (text: string) => string;
+    /** Styles the headings, e.g. `bold`. */
+    headColor?: (text: string) => string;
+    /** Alignment of all columns, or of each column. Defaults to `left`. */
+    align?: Alignment | Alignment[];
+    /** Spaces on either side of a cell. Defaults to 1. */
+    padding?: number;
+};
+
+/**
+ * Lays out rows as a table with borders. Cells may contain styled text and several lines.
+ * @example
+ * logger.log(table([
+ *     { name: 'api', status: green('up'), latency: '12ms' },
+ *     { name: 'db', status: red('down'), latency: '-' },
+ * ], { align: ['left', 'center', 'right'] }));
+ */
+export const table = (rows: (unknown[] | Record<string, unknown>)[], options: TableOptions = {}): string => {
+    const head = options.head ?? (rows.length && !Array.isArray(rows[0]) ? Object.keys(rows[0]) : undefined);
+    const body = rows.map(row => Array.isArray(row) ? row : (head ?? Object.keys(row)).map(key => row[key]));
+    const cell = (value: unknown) => value === undefined || value === null ? '' : String(value);
+
+    const headColor = options.headColor ?? identity;
+    const grid = [
+        ...(head ? [head.map(text => cell(text).split('\n').map(line => headColor(line)).join('\n'))] : []),
+        ...body.map(row => row.map(cell)),
+    ];
+
+    const columnCount = Math.max(0, ...grid.map(row => row.length));
+    const widths = Array.from({ length: columnCount }, (_, i) =>
+        Math.max(0, ...grid.map(row => Math.max(...(row[i] ?? '').split('\n').map(visibleLength)))));
+    const alignment = (i: number): Alignment => Array.isArray(options.align) ? options.align[i] ?? 'left' : options.align ?? 'left';
+
+    const padding = options.border === 'none' ? 0 : options.padding ?? 1;
+    const renderRow = (row: string[]): string[][] => {
+        const cells = widths.map((_, i) => (row[i] ?? '').split('\n'));
+        const height = Math.max(...cells.map(lines => lines.length));
+        return Array.from({ length: height }, (_, line) =>
+            cells.map((lines, i) => ' '.repeat(padding) + pad(lines[line] ?? '', widths[i], alignment(i)) + ' '.repeat(padding)));
+    };
+
+    if (options.border === 'none') {
+        return grid.flatMap(renderRow).map(cells => cells.join('  ').trimEnd()).join('\n');
+    }
+
+    const b = borderStyles[options.border ?? 'single'];
+    const color = options.borderColor ?? identity;
+    const rule = (left: string, tee: string, right: string) =>
+        color(left + widths.map(width => b.horizontal.repeat(width + padding * 2)).join(tee) + right);
+    const line = (cells: string[]) => color(b.vertical) + cells.join(color(b.vertical)) + color(b.vertical);
+
+    const lines = [rule(b.topLeft, b.topTee, b.topRight)];
+    grid.forEach((row, i) => {
+        lines.push(...renderRow(row).map(line));
+        if (head && i === 0 && grid.length > 1) {
+            lines.push(rule(b.leftTee, b.cross, b.rightTee));
+        }
+    });
+    lines.push(rule(b.bottomLeft, b.bottomTee, b.bottomRight));
+    return lines.join('\n');
+};
+
+export type BoxOptions = {
+    title?: string;
+    /** Defaults to `rounded`. */
+    border?: Exclude<BorderStyle, 'none'>;
+    borderColor?: (text: string) => string;
+    /** Alignment of the text inside the box. Defaults to `left`. */
+    align?: Alignment;
+    /** Spaces between the border and the text. Defaults to 1. */
+    padding?: number;
+};
+
+/**
+ * Draws a border around text, with an optional title in the top border.
+ * @example
+ * logger.log(box(`Server listening on ${cyan(url)}`, { title: 'api', border: 'double' }));
+ */
+export const box = (text: string, options: BoxOptions = {}): string => {
+    const b = borderStyles[options.border ?? 'rounded'];
+    const color = options.borderColor ?? identity;
+    const padding = options.padding ?? 1;
+    const lines = text.split('\n');
+    const title = options.title ? ` ${options.title} ` : '';
+    const width = Math.max(...lines.map(visibleLength), visibleLength(title) + 2 - padding * 2);
+    const inner = width + padding * 2;
+
+    const top = title
+        ? color(b.topLeft + b.horizontal) + title + color(b.horizontal.repeat(inner - 1 - visibleLength(title)) + b.topRight)
+        : color(b.topLeft + b.horizontal.repeat(inner) + b.topRight);
+    const body = lines.map(line =>
+        color(b.vertical) + ' '.repeat(padding) + pad(line, width, options.align) + ' '.repeat(padding) + color(b.vertical));
+    const bottom = color(b.bottomLeft + b.horizontal.repeat(inner) + b.bottomRight);
+
+    return [top, ...body, bottom].join('\n');
+};
+
+export type TreeOptions = {
+    /** A line shown above the tree. */
+    label?: string;
+    /** Styles the branch lines, e.g. `brightBlack`. */
+    branchColor?: (text: string) => string;
+};
+
+const isBranch = (value: unknown): value is object =>
+    typeof value === 'object' && value !== null && (Array.isArray(value) || Object.getPrototypeOf(value) === Object.prototype || value instanceof Map);
+
+/**
+ * Draws nested objects, arrays and maps as a tree. Leaves are shown as `key: value`,
+ * and array items without children by their value alone.
+ * @example
+ * logger.log(tree({ src: { 'logger.ts': '48 KB', util: ['ansi.ts', 'time.ts'] } }, { label: '.' }));
+ */
+export const tree = (value: unknown, options: TreeOptions = {}): string => {
+    const color = options.branchColor ?? identity;
+    const seen = new WeakSet<object>();
+    const lines: string[] = options.label !== undefined ? [options.label] : [];
+
+    const walk = (node: object, prefix: string) => {
+        seen.add(node);
+        const entries: [string | undefined, unknown][] = node instanceof Map
+            ? [...node.entries()].map(([k, v]) => [String(k), v])
+            : Array.isArray(node)
+                ? node.map((v, i) => [isBranch(v) ? `[${i}]` : undefined, v])
+                : Object.entries(node);
+
+        entries.forEach(([key, child], i) => {
+            const last = i === entries.length - 1;
+            const branch = color(prefix + (last ? '└── ' : '├── '));
+            if (isBranch(child) && seen.has(child)) {
+                lines.push(`${branch}${key}: [Circular]`);
+            } else if (isBranch(child)) {
+                lines.push(`${branch}${key}`);
+                walk(child, prefix + (last ? '    ' : '│   '));
+            } else {
+                lines.push(`${branch}${key === undefined ? String(child) : `${key}: ${String(child)}`}`);
+            }
+        });
+        seen.delete(node);
+    };
+
+    if (isBranch(value)) {
+        walk(value, '');
+    } else {
+        lines.push(String(value));
+    }
+    return lines.join('\n');
+};
+
+export type ColumnsOptions = {
+    /** Total width to fill. Defaults to the terminal width, or 80. */
+    width?: number;
+    /** Spaces between columns. Defaults to 2. */
+    gap?: number;
+    /** Fixed number of columns, instead of as many as fit into `width`. */
+    columns?: number;
+};
+
+/**
+ * Lays out items in columns, filling each column from top to bottom like `ls`.
+ * Items can span several lines, so this also puts blocks such as boxes side by side.
+ * @example
+ * logger.log(columns(files.map(file => blue(file))));
+ * logger.log(columns([box(stats, { title: 'cpu' }), box(memory, { title: 'memory' })]));
+ */
+export const columns = (items: string[], options: ColumnsOptions = {}): string => {
+    if (!items.length) {
+        return '';
+    }
+
+    const gap = options.gap ?? 2;
+    const width = options.width ?? (typeof process !== 'undefined' && process.stdout?.columns || 80);
+    const blocks = items.map(item => item.split('\n'));
+    const columnWidth = Math.max(...blocks.flat().map(visibleLength));
+    const count = Math.max(1, Math.min(items.length, options.columns ?? Math.floor((width + gap) / (columnWidth + gap))));
+    const rowCount = Math.ceil(items.length / count);
+
+    const lines: string[] = [];
+    for (let row = 0; row < rowCount; row++) {
+        const cells = Array.from({ length: count }, (_, column) => blocks[column * rowCount + row]).filter(Boolean);
+        const height = Math.max(...cells.map(block => block.length));
+        for (let line = 0; line < height; line++) {
+            lines.push(cells.map(block => pad(block[line] ?? '', columnWidth)).join(' '.repeat(gap)).trimEnd());
+        }
+    }
+    return lines.join('\n');
+};
@@ -0,0 +1,213 @@
+import { ANSI_SEQUENCE_RE, PALETTE_16, color256ToRgb } from './sgr.js';
+
+/**
+ * How many colors an output supports:
+ * - `0`: none, all styling is removed
+ * - `1`: the 16 named colors
+ * - `2`: the 256 color palette
+ * - `3`: truecolor (24-bit RGB)
+ */
+export type ColorLevel = 0 | 1 | 2 | 3;
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Detects the color support of the current environment, honoring `NO_COLOR`, `FORCE_COLOR`, `TERM=dumb`,
+ * `COLORTERM` and whether stdout is a TTY. Browsers are assumed to support truecolor.
+ * @param stream The stream the output is written to, defaults to `process.stdout`.
+ */
+export const detectColorLevel = (stream?: { isTTY?: boolean }): ColorLevel => {
+    if (typeof process === 'undefined') {
+        return 3;
+    }
+
+    const env: Env = process.env ?? {};
+    const forced = forceColorLevel(env.FORCE_COLOR);
+    if (forced !== undefined) {
+        return forced;
+    }
+
+    if (env.NO_COLOR !== undefined && env.NO_COLOR !== '') {
+        return 0;
+    }
+
+    if (env.TERM === 'dumb') {
+        return 0;
+    }
+
+    const output = stream ?? process.stdout;
+    if (!output?.isTTY) {
+        return 0;
+    }
+
+    if (env.COLORTERM === 'truecolor' || env.COLORTERM === '24bit') {
+        return 3;
+    }
+
+    if (process.platform === 'win32') {
+        // Windows 10 terminals support truecolor
+        return 3;
+    }
+
+    if (env.TERM_PROGRAM === 'iTerm.app' || env.TERM_PROGRAM === 'vscode') {
+        return 3;
+    }
+
+    if (env.TERM?.endsWith('256color')) {
+        return 2;
+    }
+
+    return 1;
+}
+
+/** `FORCE_COLOR` overrides detection: `0`/`false` disables colors, `1`/`true`/empty forces 16 colors, `2` and `3` force more. */
+const forceColorLevel = (value: string | undefined): ColorLevel | undefined => {
+    if (value === undefined) {
+        return undefined;
+    }
+
+    if (value === '' || value === 'true') {
+        return 1;
+    }
+
+    if (value === 'false') {
+        return 0;
+    }
+
+    const level = Number(value);
+    return Number.isInteger(level) ? Math.max(0, Math.min(3, level)) as ColorLevel : undefined;
+}
+
+const distance = (a: readonly number[], b: readonly number[]) =>
+    (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+/** Finds the closest of the 16 named colors, as an index from 0 to 15. */
+export const rgbToAnsi16 = (r: number, g: number, b: number): number => {
+    let best = 0;
+    for (let i = 1; i < PALETTE_16.length; i++) {
+        if (distance(PALETTE_16[i], [r, g, b]) < distance(PALETTE_16[best], [r, g, b])) {
+            best = i;
+        }
+    }
+    return best;
+}
+
+/** Finds the closest color of the 256 color palette, choosing between the color cube and the grayscale ramp. */
+export const rgbToAnsi256 = (r: number, g: number, b: number): number => {
+    const cubeIndex = (channel: number) => channel < 48 ? 0 : channel < 115 ? 1 : Math.min(5, Math.floor((channel - 35) / 40));
+    const cube = 16 + 36 * cubeIndex(r) + 6 * cubeIndex(g) + cubeIndex(b);
+
+    const average = (r + g + b) / 3;
+    const gray = average > 238 ? 255 : 232 + Math.max(0, Math.round((average - 8) / 10));
+
+    return distance(color256ToRgb(gray), [r, g, b]) < distance(color256ToRgb(cube), [r, g, b]) ? gray : cube;
+}
+
+/** Parses `#rgb` or `#rrggbb`, with or without the `#`. Returns `undefined` for anything else. */
+export const hexToRgb = (hex: string): [number, number, number] | undefined => {
+    const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim());
+    if (!match) {
+        return undefined;
+    }
+    const digits = match[1].length === 3 ? [...match[1]].map(d => d + d).join('') : match[1];
+    return [0, 2, 4].map(offset => parseInt(digits.slice(offset, offset + 2), 16)) as [number, number, number];
+}
+
+/**
+ * Converts HSL to RGB.
+ * @param h Hue in degrees, wrapped into 0-360.
+ * @param s Saturation from 0 to 1.
+ * @param l Lightness from 0 to 1.
+ */
+export const hslToRgb = (h: number, s: number, l: number): [number, number, number] => {
+    const hue = ((h % 360) + 360) % 360;
+    const chroma = (1 - Math.abs(2 * l - 1)) * s;
+    const x = chroma * (1 - Math.abs((hue / 60) % 2 - 1));
+    const m = l - chroma / 2;
+    const [r, g, b] =
+        hue < 60 ? [chroma, x, 0] :
+        hue < 120 ? [x, chroma, 0] :
+        hue < 180 ? [0, chroma, x] :
+        hue < 240 ? [0, x, chroma] :
+        hue < 300 ? [x, 0, chroma] :
+        [chroma, 0, x];
+    return [Math.round((r + m) * 255), Math.round((g + m) * 255), Math.round((b + m) * 255)];
+}
+
+/** Converts RGB to HSL, with the hue in degrees and saturation and lightness from 0 to 1. */
+export const rgbToHsl = (r: number, g: number, b: number): [number, number, number] => {
+    const [red, green, blue] = [r / 255, g / 255, b / 255];
+    const max = Math.max(red, green, blue);
+    const min = Math.min(red, green, blue);
+    const l = (max + min) / 2;
+    const delta = max - min;
+    if (delta === 0) {
+        return [0, 0, l];
+    }
+
+    const s = delta / (1 - Math.abs(2 * l - 1));
+    const h = max === red ? ((green - blue) / delta) % 6 : max === green ? (blue - red) / delta + 2 : (red - green) / delta + 4;
+    return [(h * 60 + 360) % 360, s, l];
+}
+
+const ansi16Code = (index: number, background: boolean) =>
+    (index < 8 ? 30 + index : 90 + index - 8) + (background ? 10 : 0);
+
+/** Rewrites the parameters of one SGR sequence so that they only use colors of the given level. */
+const downgradeParams = (params: string, level: ColorLevel): string => {
+    const codes = params.split(';');
+    const result: string[] = [];
+
+    for (let i = 0; i < codes.length; i++) {
+        const code = codes[i];
+        if ((code !== '38' && code !== '48') || (codes[i + 1] !== '5' && codes[i + 1] !== '2')) {
+            result.push(code);
+            continue;
+        }
+
+        const background = code === '48';
+        let rgb: [number, number, number];
+        if (codes[i + 1] === '5') {
+            const index = Number(codes[i + 2] ?? 0);
+            i += 2;
+            if (level >= 2) {
+                result.push(code, '5', String(index));
+                continue;
+            }
+            rgb = color256ToRgb(index);
+        } else {
+            rgb = [Number(codes[i + 2] ?? 0), Number(codes[i + 3] ?? 0), Number(codes[i + 4] ?? 0)];
+            i += 4;
+            if (level >= 3) {
+                result.push(code, '2', ...rgb.map(String));
+                continue;
+            }
+            if (level === 2) {
+                result.push(code, '5', String(rgbToAnsi256(...rgb)));
+                continue;
+            }
+        }
+
+        result.push(String(ansi16Code(rgbToAnsi16(...rgb), background)));
+    }
+
+    return result.join(';');
+}
+
+/**
+ * Rewrites the escape sequences in a string for an output with the given color support:
+ * truecolor is reduced to the 256 color palette, and either of them to the 16 named colors.
+ * At level `0`, all SGR sequences and hyperlinks are removed.
+ */
+export const downgradeAnsi = (text: string, level: ColorLevel): string => {
+    if (level >= 3) {
+        return text;
+    }
+
+    return text.replace(new RegExp(ANSI_SEQUENCE_RE.source, 'g'), (sequence, params: string | undefined) => {
+        if (level === 0) {
+            return '';
+        }
+        return params === undefined ? sequence : `\x1b[${downgradeParams(params, level)}m`;
+    });
+}
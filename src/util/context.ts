@@ -0,0 +1,42 @@
+import { builtinModule } from './node.js';
+
+/** Holds a value, such as key/value pairs, for the duration of a function call. */
+export type ContextStore<S = Record<string, unknown>> = {
+    run<T>(store: S, fn: () => T): T;
+    /** The value of the innermost `run()` that is in progress, if any. */
+    get(): S | undefined;
+};
+
+const asyncHooks = builtinModule<typeof import('node:async_hooks')>('node:async_hooks');
+
+/**
+ * Uses `AsyncLocalStorage` where available, so that the value follows promises, timers and callbacks started inside `run()`.
+ * Elsewhere, like in browsers, the value only lasts until the function returns.
+ */
+export const createContextStore = <S = Record<string, unknown>>(): ContextStore<S> => {
+    // created on first use, in case async_hooks is still loading when the store is created
+    let storage: import('node:async_hooks').AsyncLocalStorage<S> | undefined;
+    const getStorage = () => {
+        const hooks = asyncHooks();
+        return storage ??= hooks && new hooks.AsyncLocalStorage<S>();
+    };
+
+    let current: S | undefined;
+    return {
+        run: (store, fn) => {
+            const asyncStorage = getStorage();
+            if (asyncStorage) {
+                return asyncStorage.run(store, fn);
+            }
+
+            const previous = current;
+            current = store;
+            try {
+                return fn();
+            } finally {
+                current = previous;
+            }
+        },
+        get: () => getStorage()?.getStore() ?? current,
+    };
+};
@@ -0,0 +1,60 @@
+import { parseAnsi, sgrColorToHex, type SgrState } from './sgr.js';
+
+/**
+ * Converts text attributes to inline CSS declarations.
+ * Without an explicit color, inverse text uses the system colors `Canvas` and `CanvasText`.
+ */
+export const sgrStateToCss = (style: SgrState): string => {
+    let color = style.fg && sgrColorToHex(style.fg);
+    let background = style.bg && sgrColorToHex(style.bg);
+
+    if (style.inverse) {
+        [color, background] = [background ?? 'Canvas', color ?? 'CanvasText'];
+    }
+
+    const declarations: string[] = [];
+    if (style.hidden) {
+        declarations.push('color: transparent');
+    } else if (color) {
+        declarations.push(`color: ${color}`);
+    }
+    if (background) {
+        declarations.push(`background-color: ${background}`);
+    }
+    if (style.bold) {
+        declarations.push('font-weight: bold');
+    }
+    if (style.dim) {
+        declarations.push('opacity: 0.6');
+    }
+    if (style.italic) {
+        declarations.push('font-style: italic');
+    }
+
+    const decorations = [style.underline && 'underline', style.strikethrough && 'line-through'].filter(Boolean);
+    if (decorations.length > 0) {
+        declarations.push(`text-decoration: ${decorations.join(' ')}`);
+    }
+
+    return declarations.join('; ');
+}
+
+/**
+ * Turns a string containing ANSI escape sequences into arguments for `console.log` that browser DevTools understand,
+ * by replacing every change of style with a `%c` directive and a matching CSS string.
+ * Hyperlinks are reduced to their text.
+ * @example
+ * console.log(...ansiToConsoleArgs(red("Hello") + " world"));
+ * // same as console.log("%cHello%c world", "color: #cd3131", "")
+ */
+export const ansiToConsoleArgs = (text: string): [string, ...string[]] => {
+    let format = '';
+    const styles: string[] = [];
+
+    for (const segment of parseAnsi(text)) {
+        format += `%c${segment.text.replaceAll('%', '%%')}`;
+        styles.push(sgrStateToCss(segment.style));
+    }
+
+    return [format, ...styles];
+}
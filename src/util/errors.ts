@@ -0,0 +1,168 @@
+import { ANSI } from './ansi.js';
+import { builtinModule } from './node.js';
+
+export type ErrorRenderOptions = {
+    /** Maximum number of stack frames shown per error, `false` hides the stack. Defaults to 10. */
+    stack?: boolean | number;
+    /** Hides frames from Node internals (`node:internal/...`). Defaults to true. */
+    hideInternals?: boolean;
+    /**
+     * Number of source lines shown around the top frame, read from disk in Node. `false` disables it, `true` shows 2 lines on each side.
+     * Defaults to false.
+     */
+    source?: boolean | number;
+    /** Maximum depth of the cause chain and AggregateError children. Defaults to 5. */
+    depth?: number;
+};
+
+/** A parsed stack frame. `file`, `line` and `column` are missing for frames like `at new Promise (<anonymous>)`. */
+export type StackFrame = {
+    raw: string;
+    fn?: string;
+    file?: string;
+    line?: number;
+    column?: number;
+};
+
+const V8_FRAME_RE = /^\s*at (?:(.+?) \()?(.+?):(\d+):(\d+)\)?$/;
+const FIREFOX_FRAME_RE = /^(.*?)@(.+?):(\d+):(\d+)$/;
+
+/** Parses the frames of a V8 or Firefox/Safari stack trace. Lines that are not frames, like the message, are skipped. */
+export const parseStack = (stack: string): StackFrame[] => {
+    const frames: StackFrame[] = [];
+    for (const raw of stack.split('\n')) {
+        const v8 = V8_FRAME_RE.exec(raw);
+        const firefox = v8 ? null : FIREFOX_FRAME_RE.exec(raw);
+        const match = v8 ?? firefox;
+        if (match) {
+            frames.push({ raw: raw.trim(), fn: match[1] || undefined, file: match[2], line: Number(match[3]), column: Number(match[4]) });
+        } else if (/^\s*at /.test(raw)) {
+            frames.push({ raw: raw.trim() });
+        }
+    }
+    return frames;
+}
+
+export const isError = (value: unknown): value is Error =>
+    value instanceof Error || Object.prototype.toString.call(value) === '[object Error]';
+
+const color = (code: string, text: string) => `${code}${text}${ANSI.STYLE.reset}`;
+
+/** Properties that are already part of the rendered header, stack or cause chain. */
+const KNOWN_PROPERTIES = new Set(['name', 'message', 'stack', 'cause', 'errors']);
+
+const formatProperty = (value: unknown): string => {
+    if (typeof value === 'string') {
+        return color(ANSI.FG.Green, JSON.stringify(value));
+    }
+    if (typeof value === 'number' || typeof value === 'bigint' || typeof value === 'boolean') {
+        return color(ANSI.FG.Yellow, String(value));
+    }
+    if (value === null || value === undefined) {
+        return color(ANSI.STYLE.dim, String(value));
+    }
+    try {
+        return JSON.stringify(value) ?? String(value);
+    } catch {
+        return String(value);
+    }
+}
+
+const fs = builtinModule<typeof import('node:fs')>('node:fs');
+
+/** Reads a few lines around a position in a file, only in Node. Returns an empty list if the file can not be read. */
+const readSourceLines = (file: string, line: number, context: number): { number: number; text: string }[] => {
+    const nodeFs = fs();
+    if (!nodeFs) {
+        return [];
+    }
+
+    try {
+        const path = file.startsWith('file://') ? decodeURIComponent(new URL(file).pathname) : file;
+        const lines = nodeFs.readFileSync(path, 'utf8').split(/\r?\n/);
+        const start = Math.max(1, line - context);
+        const end = Math.min(lines.length, line + context);
+        const result = [];
+        for (let number = start; number <= end; number++) {
+            result.push({ number, text: lines[number - 1] });
+        }
+        return result;
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Renders an error with a colorized and trimmed stack trace, its own extra properties,
+ * its `cause` chain and the children of an `AggregateError`.
+ * @example
+ * console.log(renderError(new Error("Failed", { cause: otherError })));
+ */
+export const renderError = (error: Error, options: ErrorRenderOptions = {}, indent = '', depth = 0, seen: Set<unknown> = new Set()): string => {
+    const { stack = 10, hideInternals = true, source = false, depth: maxDepth = 5 } = options;
+    seen.add(error);
+
+    const name = error.name || 'Error';
+    const lines = [`${indent}${color(ANSI.STYLE.bold + ANSI.FG.Red, `${name}:`)} ${error.message}`];
+
+    const maxFrames = stack === true ? Infinity : stack === false ? 0 : stack;
+    const frames = parseStack(typeof error.stack === 'string' ? error.stack : '')
+        .filter(frame => !hideInternals || !frame.file?.startsWith('node:internal') && !frame.raw.includes('(node:internal'));
+
+    for (const frame of frames.slice(0, maxFrames)) {
+        const location = frame.file !== undefined ? `${frame.file}:${frame.line}:${frame.column}` : frame.raw.replace(/^at /, '');
+        const text = frame.fn !== undefined
+            ? `${frame.fn} ${color(ANSI.STYLE.dim, '(')}${color(ANSI.FG.Cyan, location)}${color(ANSI.STYLE.dim, ')')}`
+            : color(ANSI.FG.Cyan, location);
+        lines.push(`${indent}    ${color(ANSI.STYLE.dim, 'at')} ${text}`);
+    }
+
+    if (frames.length > maxFrames && maxFrames > 0) {
+        lines.push(`${indent}    ${color(ANSI.STYLE.dim, `... ${frames.length - maxFrames} more`)}`);
+    }
+
+    const context = source === true ? 2 : source === false ? 0 : source;
+    const top = frames[0];
+    if (context > 0 && maxFrames > 0 && top?.file && top.line) {
+        const sourceLines = readSourceLines(top.file, top.line, context);
+        const width = String(sourceLines[sourceLines.length - 1]?.number ?? '').length;
+        for (const { number, text } of sourceLines) {
+            const marker = number === top.line ? color(ANSI.FG.Red, '>') : ' ';
+            const gutter = color(ANSI.STYLE.dim, `${String(number).padStart(width)} |`);
+            lines.push(`${indent}  ${marker} ${gutter} ${number === top.line ? text : color(ANSI.STYLE.dim, text)}`);
+            if (number === top.line && top.column) {
+                lines.push(`${indent}    ${' '.repeat(width)} ${color(ANSI.STYLE.dim, '|')} ${' '.repeat(top.column - 1)}${color(ANSI.FG.Red, '^')}`);
+            }
+        }
+    }
+
+    const properties = Object.keys(error).filter(key => !KNOWN_PROPERTIES.has(key));
+    if (properties.length > 0) {
+        const formatted = properties.map(key => `${key}: ${formatProperty((error as any)[key])}`).join(', ');
+        lines.push(`${indent}  { ${formatted} }`);
+    }
+
+    const nested = (label: string, value: unknown) => {
+        if (seen.has(value)) {
+            lines.push(`${indent}  ${color(ANSI.STYLE.dim, label)} ${color(ANSI.STYLE.dim, '[Circular]')}`);
+        } else if (depth + 1 > maxDepth) {
+            lines.push(`${indent}  ${color(ANSI.STYLE.dim, label)} ${color(ANSI.STYLE.dim, '...')}`);
+        } else if (isError(value)) {
+            lines.push(`${indent}  ${color(ANSI.STYLE.dim, label)}`);
+            lines.push(renderError(value, options, indent + '  ', depth + 1, seen));
+        } else {
+            lines.push(`${indent}  ${color(ANSI.STYLE.dim, label)} ${formatProperty(value)}`);
+        }
+    };
+
+    if (error instanceof AggregateError) {
+        error.errors.forEach((child, i) => nested(`[${i + 1}/${error.errors.length}]`, child));
+    }
+
+    const cause = (error as { cause?: unknown }).cause;
+    if (cause !== undefined) {
+        nested('Caused by:', cause);
+    }
+
+    return lines.join('\n');
+}
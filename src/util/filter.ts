@@ -0,0 +1,217 @@
+/**
+ * A compiled filter expression, see {@link compileFilter}.
+ */
+export type LogFilter = {
+    /** The expression the filter was compiled from. */
+    source: string;
+    /** Returns true if a logger with the given name and tags passes the filter. Results are cached. */
+    test(name: string, tags: readonly string[]): boolean;
+};
+
+/** Thrown for malformed filter expressions. `position` is the index in the expression where the problem was found. */
+export class FilterSyntaxError extends Error {
+    position: number;
+
+    constructor(message: string, source: string, position: number) {
+        super(`${message} at position ${position} in filter "${source}"`);
+        this.name = 'FilterSyntaxError';
+        this.position = position;
+    }
+}
+
+type Matcher = (name: string, tags: readonly string[]) => boolean;
+
+type Token = { type: 'word' | 'tag' | '(' | ')' | ',' | 'and' | 'or' | 'not' | 'end'; value: string; position: number };
+
+const PATTERN_CHARS = /[^\s,()!&|]/;
+
+const tokenize = (source: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < source.length) {
+        const char = source[i];
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+
+        if (char === '(' || char === ')' || char === ',') {
+            tokens.push({ type: char, value: char, position: i++ });
+            continue;
+        }
+
+        if (char === '!' || char === '&' || char === '|') {
+            const type = char === '!' ? 'not' : char === '&' ? 'and' : 'or';
+            // accept both single and doubled operators, e.g. "&&" and "||"
+            const length = char !== '!' && source[i + 1] === char ? 2 : 1;
+            tokens.push({ type, value: source.slice(i, i + length), position: i });
+            i += length;
+            continue;
+        }
+
+        const start = i;
+        while (i < source.length && PATTERN_CHARS.test(source[i])) {
+            i++;
+        }
+
+        const word = source.slice(start, i);
+        if (word === 'and' || word === 'or' || word === 'not') {
+            tokens.push({ type: word, value: word, position: start });
+        } else if (word.startsWith('#')) {
+            if (word.length === 1) {
+                throw new FilterSyntaxError('Expected a tag after "#"', source, start);
+            }
+            tokens.push({ type: 'tag', value: word.slice(1), position: start });
+        } else {
+            tokens.push({ type: 'word', value: word, position: start });
+        }
+    }
+
+    tokens.push({ type: 'end', value: '', position: source.length });
+    return tokens;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+/** Turns a pattern with `*` wildcards into a function that tests whole strings. */
+const wildcard = (pattern: string): (value: string) => boolean => {
+    if (!pattern.includes('*')) {
+        return value => value === pattern;
+    }
+    const re = new RegExp(`^${escapeRegExp(pattern).replaceAll('*', '.*')}$`);
+    return value => re.test(value);
+}
+
+/**
+ * Compiles a filter expression over logger names and tags.
+ *
+ * The expression is a comma separated list, similar to the `DEBUG` variable of the `debug` package:
+ * a logger passes if it matches any of the items, and none of the items prefixed with `-`.
+ * If there are only `-` items, every logger that does not match them passes.
+ *
+ * Each item is a boolean expression:
+ * - `api:*` matches logger names, `*` matches any sequence of characters
+ * - `#db` matches loggers with a tag, wildcards work here too
+ * - `and`/`&&`, `or`/`||`, `not`/`!` and parentheses combine them
+ * @example
+ * compileFilter('api:*, -api:noisy');
+ * compileFilter('worker:* and not #verbose, #audit');
+ * @throws {FilterSyntaxError} If the expression is malformed.
+ */
+export const compileFilter = (source: string): LogFilter => {
+    const tokens = tokenize(source);
+    let index = 0;
+
+    const peek = () => tokens[index];
+    const next = () => tokens[index++];
+    const expect = (type: Token['type'], description: string) => {
+        const token = next();
+        if (token.type !== type) {
+            throw new FilterSyntaxError(`Expected ${description} but found ${token.type === 'end' ? 'the end of the filter' : `"${token.value}"`}`, source, token.position);
+        }
+        return token;
+    };
+
+    const parseOr = (): Matcher => {
+        let left = parseAnd();
+        while (peek().type === 'or') {
+            next();
+            const a = left, b = parseAnd();
+            left = (name, tags) => a(name, tags) || b(name, tags);
+        }
+        return left;
+    };
+
+    const parseAnd = (): Matcher => {
+        let left = parseUnary();
+        while (peek().type === 'and') {
+            next();
+            const a = left, b = parseUnary();
+            left = (name, tags) => a(name, tags) && b(name, tags);
+        }
+        return left;
+    };
+
+    const parseUnary = (): Matcher => {
+        const token = next();
+        switch (token.type) {
+            case 'not': {
+                const inner = parseUnary();
+                return (name, tags) => !inner(name, tags);
+            }
+            case '(': {
+                const inner = parseOr();
+                expect(')', '")"');
+                return inner;
+            }
+            case 'tag': {
+                const matches = wildcard(token.value);
+                return (_name, tags) => tags.some(matches);
+            }
+            case 'word': {
+                const matches = wildcard(token.value);
+                return name => matches(name);
+            }
+            default:
+                throw new FilterSyntaxError(`Expected a name, tag or "(" but found ${token.type === 'end' ? 'the end of the filter' : `"${token.value}"`}`, source, token.position);
+        }
+    };
+
+    const includes: Matcher[] = [];
+    const excludes: Matcher[] = [];
+
+    if (peek().type !== 'end') {
+        do {
+            const token = peek();
+            // a leading "-" excludes the whole item
+            if (token.type === 'word' && token.value.startsWith('-')) {
+                if (token.value === '-') {
+                    next();
+                } else {
+                    token.value = token.value.slice(1);
+                    token.position++;
+                }
+                excludes.push(parseOr());
+            } else {
+                includes.push(parseOr());
+            }
+        } while (peek().type === ',' && next());
+    }
+
+    expect('end', '"," or the end of the filter');
+
+    const matcher: Matcher = (name, tags) =>
+        (includes.length === 0 || includes.some(include => include(name, tags)))
+        && !excludes.some(exclude => exclude(name, tags));
+
+    // loggers rarely change their name and tags, so the results are cached per combination
+    const cache = new Map<string, boolean>();
+    return {
+        source,
+        test(name, tags) {
+            const key = `${name}\0${tags.join('\0')}`;
+            let result = cache.get(key);
+            if (result === undefined) {
+                if (cache.size >= 1000) {
+                    cache.clear();
+                }
+                result = matcher(name, tags);
+                cache.set(key, result);
+            }
+            return result;
+        },
+    };
+}
+
+const compiled = new Map<string, LogFilter>();
+
+/** Like {@link compileFilter}, but returns the same compiled filter for the same expression. */
+export const getFilter = (source: string): LogFilter => {
+    let filter = compiled.get(source);
+    if (!filter) {
+        filter = compileFilter(source);
+        compiled.set(source, filter);
+    }
+    return filter;
+}
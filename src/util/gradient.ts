@@ -0,0 +1,98 @@
+import { ANSI } from './ansi.js';
+import { hexToRgb, hslToRgb, rgbToHsl } from './color.js';
+import { tokenizeAnsi } from './text.js';
+
+/** A color as `#rgb`/`#rrggbb` or as RGB channels from 0 to 255. */
+export type GradientColor = string | readonly [number, number, number];
+
+export type GradientOptions = {
+    /**
+     * How colors between two stops are mixed:
+     * - `rgb`: in a straight line through RGB
+     * - `hue`: around the color wheel the short way, which keeps colors saturated
+     * Defaults to `rgb`.
+     */
+    interpolation?: 'rgb' | 'hue';
+    /** Colors the background instead of the text. */
+    background?: boolean;
+};
+
+/** Named gradients that can be passed to {@link gradient} instead of a list of stops. */
+export const gradientPresets = {
+    rainbow: ['#ff0000', '#ffff00', '#00ff00', '#00ffff', '#0000ff', '#ff00ff', '#ff0000'],
+    sunset: ['#ff5f6d', '#ffc371'],
+    ocean: ['#00c6ff', '#0072ff'],
+    fire: ['#f12711', '#f5af19'],
+    forest: ['#a8e063', '#56ab2f'],
+    pastel: ['#ffd1dc', '#e0bbe4', '#bde0fe'],
+    vaporwave: ['#ff71ce', '#01cdfe', '#05ffa1'],
+} as const satisfies Record<string, readonly GradientColor[]>;
+
+export type GradientPreset = keyof typeof gradientPresets;
+
+const toRgb = (color: GradientColor): [number, number, number] => {
+    if (typeof color !== 'string') {
+        return [color[0], color[1], color[2]];
+    }
+    const rgb = hexToRgb(color);
+    if (!rgb) {
+        throw new Error(`Invalid color "${color}" in gradient, expected #rgb or #rrggbb.`);
+    }
+    return rgb;
+};
+
+const mixRgb = (a: readonly number[], b: readonly number[], t: number): [number, number, number] =>
+    [0, 1, 2].map(i => Math.round(a[i] + (b[i] - a[i]) * t)) as [number, number, number];
+
+const mixHue = (a: readonly number[], b: readonly number[], t: number): [number, number, number] => {
+    const [h1, s1, l1] = rgbToHsl(a[0], a[1], a[2]);
+    const [h2, s2, l2] = rgbToHsl(b[0], b[1], b[2]);
+    const delta = ((h2 - h1 + 540) % 360) - 180;
+    return hslToRgb(h1 + delta * t, s1 + (s2 - s1) * t, l1 + (l2 - l1) * t);
+};
+
+/**
+ * Returns a function that gives the color at a position from 0 to 1 along evenly spaced stops.
+ * @throws For colors that are not valid hex colors.
+ */
+export const gradientScale = (stops: readonly GradientColor[], interpolation: GradientOptions['interpolation'] = 'rgb') => {
+    const colors = stops.map(toRgb);
+    if (colors.length === 0) {
+        throw new Error('A gradient needs at least one color.');
+    }
+    const mix = interpolation === 'hue' ? mixHue : mixRgb;
+
+    return (position: number): [number, number, number] => {
+        if (colors.length === 1) {
+            return colors[0];
+        }
+        const scaled = Math.max(0, Math.min(1, position)) * (colors.length - 1);
+        const index = Math.min(Math.floor(scaled), colors.length - 2);
+        return mix(colors[index], colors[index + 1], scaled - index);
+    };
+};
+
+/**
+ * Puts a color code in front of every visible character, leaving escape sequences already in the text intact.
+ * @param colorAt Returns the code for the character at `index` out of `count` visible characters.
+ */
+export const colorChars = (text: string, colorAt: (index: number, count: number) => string): string => {
+    const tokens = tokenizeAnsi(text);
+    const count = tokens.filter(token => token.type === 'char').length;
+    let index = 0;
+    return tokens.map(token => token.type === 'escape' ? token.value : `${colorAt(index++, count)}${token.value}`).join('') + ANSI.STYLE.reset;
+};
+
+/**
+ * Colors text with a gradient running from the first to the last character.
+ * @param stops A preset name, or at least one color. Colors are spaced evenly.
+ * @example
+ * gradient(['#ff8800', '#8800ff'], "Hello world");
+ * gradient('ocean', "Deploying", { background: true });
+ * gradient(['#ff0000', '#0000ff'], "Purple in the middle", { interpolation: 'hue' });
+ */
+export const gradient = (stops: GradientPreset | readonly GradientColor[], text: string, options: GradientOptions = {}): string => {
+    const scale = gradientScale(typeof stops === 'string' ? gradientPresets[stops] : stops, options.interpolation);
+    const code = options.background ? ANSI.BG.RGB : ANSI.FG.RGB;
+    return colorChars(text, (index, count) => code(...scale(index / Math.max(count - 1, 1))));
+};
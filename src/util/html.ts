@@ -0,0 +1,201 @@
+import { sgrStateToCss } from './css.js';
+import { ANSI_SEQUENCE_RE, applySgr, initialSgrState, sgrColorToHex, type SgrColor, type SgrState } from './sgr.js';
+
+/**
+ * How styles are written:
+ * - `inline`: a `style` attribute on every span
+ * - `class`: class names such as `ansi-bold ansi-fg-1`, styled by {@link ansiHtmlStylesheet}.
+ *   Truecolor cannot be expressed as a class and is still written inline.
+ */
+export type AnsiHtmlMode = 'inline' | 'class';
+
+export type AnsiHtmlOptions = {
+    /** Defaults to `inline`. */
+    mode?: AnsiHtmlMode;
+    /** Prefix of the class names in `class` mode. Defaults to `ansi-`. */
+    classPrefix?: string;
+    /** URL schemes hyperlinks may use. Links with any other scheme, like `javascript:`, are reduced to their text. Defaults to http, https and mailto. */
+    linkSchemes?: string[];
+};
+
+/** Escapes the characters that have a meaning in HTML text and attribute values. */
+export const escapeHtml = (text: string): string => text
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&#39;');
+
+/** Also matches escape sequences other than SGR and OSC 8, such as cursor movement, which are dropped. */
+const SEQUENCE_RE = new RegExp(`${ANSI_SEQUENCE_RE.source}|\\x1b\\[[0-9;?]*[A-Za-z]`, 'g');
+
+/** An escape sequence cut off at the end of a chunk, to be completed by the next one. */
+const PARTIAL_RE = /\x1b(?:\[[0-9;?]*|\][^\x07\x1b]*\x1b?)?$/;
+
+const colorClass = (prefix: string, kind: 'fg' | 'bg', color: SgrColor) =>
+    color.type === 'rgb' ? undefined : `${prefix}${kind}-${color.index}`;
+
+/**
+ * Converts ANSI-styled text to HTML, chunk by chunk. Styles and hyperlinks carry over from one chunk to the next,
+ * and escape sequences split between chunks are completed first, so output can be appended as it is logged.
+ * Every chunk's HTML is self-contained: all elements it opens are closed again.
+ * Newlines are kept, so the result belongs inside a `<pre>` or an element with `white-space: pre-wrap`.
+ * @example
+ * const converter = new AnsiHtmlConverter({ mode: 'class' });
+ * logger.addEventListener('log', entry => pre.insertAdjacentHTML('beforeend', converter.write(entry.output + '\n')));
+ */
+export class AnsiHtmlConverter {
+    readonly mode: AnsiHtmlMode;
+    readonly classPrefix: string;
+    readonly linkSchemes: string[];
+
+    #state: SgrState = initialSgrState();
+    #link?: string;
+    #pending = '';
+
+    constructor(options: AnsiHtmlOptions = {}) {
+        this.mode = options.mode ?? 'inline';
+        this.classPrefix = options.classPrefix ?? 'ansi-';
+        this.linkSchemes = options.linkSchemes ?? ['http', 'https', 'mailto'];
+    }
+
+    /** Converts the next chunk of text. */
+    write(chunk: string): string {
+        let text = this.#pending + chunk;
+        const partial = PARTIAL_RE.exec(text);
+        this.#pending = partial ? partial[0] : '';
+        if (partial) {
+            text = text.slice(0, partial.index);
+        }
+        return this.#convert(text);
+    }
+
+    /** Converts whatever is left of an incomplete escape sequence at the end, as text. */
+    end(): string {
+        const rest = this.#pending;
+        this.#pending = '';
+        return rest ? this.#span(rest.replace(/\x1b/g, '')) : '';
+    }
+
+    #convert(text: string): string {
+        let html = '';
+        let run = '';
+        let runLink = this.#link;
+
+        // text under one hyperlink goes into a single anchor, even when its style changes
+        const flushLink = () => {
+            if (run) {
+                html += this.#anchor(runLink, run);
+                run = '';
+            }
+        };
+
+        const re = new RegExp(SEQUENCE_RE.source, 'g');
+        let lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = re.exec(text)) !== null) {
+            run += this.#span(text.slice(lastIndex, match.index));
+            lastIndex = re.lastIndex;
+
+            if (match[1] !== undefined) {
+                this.#state = applySgr(this.#state, match[1]);
+            } else if (match[0].startsWith('\x1b]')) {
+                flushLink();
+                this.#link = match[2] || undefined;
+                runLink = this.#link;
+            }
+        }
+        run += this.#span(text.slice(lastIndex));
+        flushLink();
+
+        return html;
+    }
+
+    #anchor(link: string | undefined, content: string): string {
+        const scheme = link && /^([a-z][a-z0-9+.-]*):/i.exec(link)?.[1].toLowerCase();
+        if (!link || !scheme || !this.linkSchemes.includes(scheme)) {
+            return content;
+        }
+        return `<a href="${escapeHtml(link)}">${content}</a>`;
+    }
+
+    #span(text: string): string {
+        if (text === '') {
+            return '';
+        }
+
+        const escaped = escapeHtml(text);
+        if (this.mode === 'inline') {
+            const css = sgrStateToCss(this.#state);
+            return css ? `<span style="${escapeHtml(css)}">${escaped}</span>` : escaped;
+        }
+
+        const [classes, css] = this.#classes(this.#state);
+        if (!classes.length && !css) {
+            return escaped;
+        }
+        const classAttribute = classes.length ? ` class="${escapeHtml(classes.join(' '))}"` : '';
+        const styleAttribute = css ? ` style="${escapeHtml(css)}"` : '';
+        return `<span${classAttribute}${styleAttribute}>${escaped}</span>`;
+    }
+
+    #classes(style: SgrState): [string[], string] {
+        const prefix = this.classPrefix;
+        const [fg, bg] = style.inverse ? [style.bg, style.fg] : [style.fg, style.bg];
+        const classes: string[] = [];
+        const css: string[] = [];
+
+        if (style.inverse && (!fg || !bg)) {
+            classes.push(`${prefix}inverse`);
+        }
+        for (const [kind, color] of [['fg', fg], ['bg', bg]] as const) {
+            if (!color) {
+                continue;
+            }
+            const name = colorClass(prefix, kind, color);
+            if (name) {
+                classes.push(name);
+            } else {
+                css.push(`${kind === 'fg' ? 'color' : 'background-color'}: ${sgrColorToHex(color)}`);
+            }
+        }
+        for (const attribute of ['bold', 'dim', 'italic', 'underline', 'strikethrough', 'hidden'] as const) {
+            if (style[attribute]) {
+                classes.push(`${prefix}${attribute}`);
+            }
+        }
+
+        return [classes, css.join('; ')];
+    }
+}
+
+/**
+ * Converts ANSI-styled text to HTML in one go.
+ * @example
+ * element.innerHTML = `<pre>${ansiToHtml(entry.output)}</pre>`;
+ */
+export const ansiToHtml = (text: string, options: AnsiHtmlOptions = {}): string => {
+    const converter = new AnsiHtmlConverter(options);
+    return converter.write(text) + converter.end();
+};
+
+/** CSS for the class names written in `class` mode, with the same colors that inline styles use. */
+export const ansiHtmlStylesheet = (classPrefix: string = 'ansi-'): string => {
+    const rules = [
+        `.${classPrefix}inverse { color: Canvas; background-color: CanvasText; }`,
+    ];
+    for (let index = 0; index < 256; index++) {
+        const hex = sgrColorToHex({ type: '256', index });
+        rules.push(`.${classPrefix}fg-${index} { color: ${hex}; }`, `.${classPrefix}bg-${index} { background-color: ${hex}; }`);
+    }
+    rules.push(
+        `.${classPrefix}bold { font-weight: bold; }`,
+        `.${classPrefix}dim { opacity: 0.6; }`,
+        `.${classPrefix}italic { font-style: italic; }`,
+        `.${classPrefix}underline { text-decoration: underline; }`,
+        `.${classPrefix}strikethrough { text-decoration: line-through; }`,
+        `.${classPrefix}underline.${classPrefix}strikethrough { text-decoration: underline line-through; }`,
+        `.${classPrefix}hidden { color: transparent; }`,
+    );
+    return rules.join('\n');
+};
@@ -0,0 +1,227 @@
+import { visibleLength } from './text.js';
+
+/** Token types that the inspector styles. */
+export type InspectTokenType =
+    | 'key'
+    | 'string'
+    | 'number'
+    | 'bigint'
+    | 'boolean'
+    | 'null'
+    | 'undefined'
+    | 'symbol'
+    | 'date'
+    | 'regexp'
+    | 'special'
+    | 'name';
+
+export type InspectStyles = Partial<Record<InspectTokenType, (text: string) => string>>;
+
+export type InspectOptions = {
+    /** How many levels of nested objects are shown, deeper ones are abbreviated to `[Object]`. Defaults to 2. */
+    depth?: number;
+    /** Maximum number of array, Set and Map entries shown. Defaults to 100. */
+    maxArrayLength?: number;
+    /** Strings longer than this are truncated. Defaults to 10000. */
+    maxStringLength?: number;
+    /** Sorts object keys alphabetically. Defaults to false. */
+    sortKeys?: boolean;
+    /**
+     * - `single`: everything on one line
+     * - `multi`: every entry on its own line
+     * - `auto`: one line if it fits in `breakLength`, multiple lines otherwise (default)
+     */
+    layout?: 'single' | 'multi' | 'auto';
+    /** Maximum width of a single line layout in `auto` mode. Defaults to 80. */
+    breakLength?: number;
+    /** Spaces per indentation level in the multi-line layout. Defaults to 2. */
+    indent?: number;
+    /** Styles for each token type. Token types without a style are left plain. */
+    styles?: InspectStyles;
+};
+
+type Context = Required<Omit<InspectOptions, 'styles'>> & {
+    styles: InspectStyles;
+    /** Objects currently being inspected, used to detect circular references. */
+    ancestors: object[];
+};
+
+const IDENTIFIER_RE = /^[A-Za-z_$][\w$]*$/;
+
+const paint = (ctx: Context, type: InspectTokenType, text: string) => {
+    const style = ctx.styles[type];
+    return style ? style(text) : text;
+}
+
+const quote = (text: string) => `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+
+const formatKey = (ctx: Context, key: PropertyKey): string => {
+    if (typeof key === 'symbol') {
+        return `[${paint(ctx, 'symbol', key.toString())}]`;
+    }
+    const name = String(key);
+    return paint(ctx, 'key', IDENTIFIER_RE.test(name) ? name : quote(name));
+}
+
+const formatPrimitive = (ctx: Context, value: unknown): string | undefined => {
+    switch (typeof value) {
+        case 'string': {
+            const truncated = value.length > ctx.maxStringLength;
+            const text = truncated ? value.slice(0, ctx.maxStringLength) : value;
+            return paint(ctx, 'string', quote(text)) + (truncated ? `... ${value.length - ctx.maxStringLength} more characters` : '');
+        }
+        case 'number':
+            return paint(ctx, 'number', Object.is(value, -0) ? '-0' : String(value));
+        case 'bigint':
+            return paint(ctx, 'bigint', `${value}n`);
+        case 'boolean':
+            return paint(ctx, 'boolean', String(value));
+        case 'undefined':
+            return paint(ctx, 'undefined', 'undefined');
+        case 'symbol':
+            return paint(ctx, 'symbol', value.toString());
+        case 'function':
+            return paint(ctx, 'special', `[${value.toString().startsWith('class') ? 'class' : 'Function'}: ${value.name || '(anonymous)'}]`);
+    }
+    return value === null ? paint(ctx, 'null', 'null') : undefined;
+}
+
+/** Joins entries on one line, or on several indented lines, depending on the layout. */
+const wrap = (ctx: Context, open: string, entries: string[], close: string, level: number): string => {
+    if (entries.length === 0) {
+        return `${open}${close}`;
+    }
+
+    const single = `${open} ${entries.join(', ')} ${close}`;
+    const multiline = entries.some(entry => entry.includes('\n'));
+    if (ctx.layout === 'single' || (ctx.layout === 'auto' && !multiline && level * ctx.indent + visibleLength(single) <= ctx.breakLength)) {
+        return single;
+    }
+
+    const padding = ' '.repeat((level + 1) * ctx.indent);
+    return `${open}\n${entries.map(entry => padding + entry).join(',\n')}\n${' '.repeat(level * ctx.indent)}${close}`;
+}
+
+const constructorName = (value: object): string | undefined => {
+    const prototype = Object.getPrototypeOf(value);
+    if (prototype === null) {
+        return '[Object: null prototype]';
+    }
+    const name = prototype?.constructor?.name;
+    return name && name !== 'Object' ? name : undefined;
+}
+
+const formatValue = (ctx: Context, value: unknown, level: number): string => {
+    const primitive = formatPrimitive(ctx, value);
+    if (primitive !== undefined) {
+        return primitive;
+    }
+
+    const object = value as object;
+    if (ctx.ancestors.includes(object)) {
+        return paint(ctx, 'special', '[Circular]');
+    }
+
+    if (object instanceof Date) {
+        return paint(ctx, 'date', Number.isNaN(object.getTime()) ? 'Invalid Date' : object.toISOString());
+    }
+
+    if (object instanceof RegExp) {
+        return paint(ctx, 'regexp', String(object));
+    }
+
+    if (object instanceof Error) {
+        return paint(ctx, 'special', `[${object.name}: ${object.message}]`);
+    }
+
+    if (level > ctx.depth) {
+        const kind = Array.isArray(object) ? 'Array' : constructorName(object) ?? 'Object';
+        return paint(ctx, 'special', `[${kind}]`);
+    }
+
+    ctx.ancestors.push(object);
+    try {
+        return formatObject(ctx, object, level);
+    } finally {
+        ctx.ancestors.pop();
+    }
+}
+
+const more = (ctx: Context, count: number) =>
+    paint(ctx, 'special', `... ${count} more item${count === 1 ? '' : 's'}`);
+
+const formatObject = (ctx: Context, object: object, level: number): string => {
+    if (Array.isArray(object) || ArrayBuffer.isView(object) && !(object instanceof DataView)) {
+        const items = object as ArrayLike<unknown>;
+        const entries: string[] = [];
+        const shown = Math.min(items.length, ctx.maxArrayLength);
+        for (let i = 0; i < shown; i++) {
+            entries.push(i in items ? formatValue(ctx, items[i], level + 1) : paint(ctx, 'undefined', '<empty>'));
+        }
+        if (items.length > shown) {
+            entries.push(more(ctx, items.length - shown));
+        }
+        const prefix = Array.isArray(object) ? '' : `${paint(ctx, 'name', `${constructorName(object)}(${items.length})`)} `;
+        return prefix + wrap(ctx, '[', entries, ']', level);
+    }
+
+    if (object instanceof Map || object instanceof Set) {
+        const entries: string[] = [];
+        let count = 0;
+        for (const entry of object) {
+            if (count++ >= ctx.maxArrayLength) {
+                break;
+            }
+            entries.push(object instanceof Map
+                ? `${formatValue(ctx, entry[0], level + 1)} => ${formatValue(ctx, entry[1], level + 1)}`
+                : formatValue(ctx, entry, level + 1));
+        }
+        if (object.size > ctx.maxArrayLength) {
+            entries.push(more(ctx, object.size - ctx.maxArrayLength));
+        }
+        const name = object instanceof Map ? 'Map' : 'Set';
+        return `${paint(ctx, 'name', `${name}(${object.size})`)} ${wrap(ctx, '{', entries, '}', level)}`;
+    }
+
+    if (object instanceof ArrayBuffer) {
+        const bytes = [...new Uint8Array(object, 0, Math.min(object.byteLength, ctx.maxArrayLength))]
+            .map(byte => byte.toString(16).padStart(2, '0'));
+        const rest = object.byteLength > bytes.length ? ` ${more(ctx, object.byteLength - bytes.length)}` : '';
+        return `${paint(ctx, 'name', `ArrayBuffer(${object.byteLength})`)} <${bytes.join(' ')}${rest}>`;
+    }
+
+    const keys: PropertyKey[] = Object.keys(object);
+    if (ctx.sortKeys) {
+        keys.sort();
+    }
+    keys.push(...Object.getOwnPropertySymbols(object).filter(symbol => Object.prototype.propertyIsEnumerable.call(object, symbol)));
+
+    const entries = keys.map(key => {
+        const descriptor = Object.getOwnPropertyDescriptor(object, key)!;
+        const formatted = 'value' in descriptor
+            ? formatValue(ctx, descriptor.value, level + 1)
+            : paint(ctx, 'special', descriptor.get && descriptor.set ? '[Getter/Setter]' : descriptor.get ? '[Getter]' : '[Setter]');
+        return `${formatKey(ctx, key)}: ${formatted}`;
+    });
+
+    const name = constructorName(object);
+    return `${name ? `${paint(ctx, 'name', name)} ` : ''}${wrap(ctx, '{', entries, '}', level)}`;
+}
+
+/**
+ * Renders any value as readable, optionally colored text, similar to Node's `util.inspect`, but also in browsers.
+ * Circular references are shown as `[Circular]`.
+ * @example
+ * inspect({ id: 1, tags: new Set(['a']) }) // → "{ id: 1, tags: Set(1) { 'a' } }"
+ */
+export const inspect = (value: unknown, options: InspectOptions = {}): string => formatValue({
+    depth: options.depth ?? 2,
+    maxArrayLength: options.maxArrayLength ?? 100,
+    maxStringLength: options.maxStringLength ?? 10000,
+    sortKeys: options.sortKeys ?? false,
+    layout: options.layout ?? 'auto',
+    breakLength: options.breakLength ?? 80,
+    indent: options.indent ?? 2,
+    styles: options.styles ?? {},
+    ancestors: [],
+}, value, 0);
@@ -0,0 +1,84 @@
+import { pad } from './text.js';
+
+/** Tokens that can be used in a layout template. */
+export type LayoutToken = 'timestamp' | 'level' | 'name' | 'tags' | 'message' | 'fields';
+
+type LayoutPart =
+    | { literal: string }
+    | { token: LayoutToken; align: '<' | '>' | '^'; width: number };
+
+export type CompiledLayout = LayoutPart[];
+
+const TOKEN_RE = /\{(\w+)(?::([<>^])?(\d+))?\}/g;
+const TOKENS: readonly string[] = ['timestamp', 'level', 'name', 'tags', 'message', 'fields'];
+
+const layouts = new Map<string, CompiledLayout>();
+
+/**
+ * Parses a layout template such as `"{timestamp} {level:<5} [{name}] {tags} {message}"`.
+ * A token may be followed by an alignment (`<` left, `>` right, `^` center) and a minimum width.
+ * Compiled layouts are cached.
+ * @throws Will throw an error for unknown tokens.
+ */
+export const compileLayout = (template: string): CompiledLayout => {
+    const cached = layouts.get(template);
+    if (cached) {
+        return cached;
+    }
+
+    const parts: CompiledLayout = [];
+    let lastIndex = 0;
+    for (const match of template.matchAll(TOKEN_RE)) {
+        if (!TOKENS.includes(match[1])) {
+            throw new Error(`Unknown layout token "{${match[1]}}" in "${template}". Expected one of: ${TOKENS.join(', ')}.`);
+        }
+        if (match.index! > lastIndex) {
+            parts.push({ literal: template.slice(lastIndex, match.index) });
+        }
+        parts.push({ token: match[1] as LayoutToken, align: (match[2] ?? '<') as '<' | '>' | '^', width: Number(match[3] ?? 0) });
+        lastIndex = match.index! + match[0].length;
+    }
+    if (lastIndex < template.length) {
+        parts.push({ literal: template.slice(lastIndex) });
+    }
+
+    layouts.set(template, parts);
+    return parts;
+}
+
+const alignments = { '<': 'left', '>': 'right', '^': 'center' } as const;
+
+/**
+ * Fills a compiled layout with values. Values are padded before they are styled, so that styles also cover the padding.
+ * Tokens without a value and without a width are dropped together with the space that follows them,
+ * so that for example an empty `{tags}` does not leave a double space behind.
+ */
+export const renderLayout = (
+    layout: CompiledLayout,
+    values: Partial<Record<LayoutToken, string>>,
+    style: (token: LayoutToken, text: string) => string = (_token, text) => text,
+): string => {
+    let result = '';
+    let skipSpace = false;
+
+    for (const part of layout) {
+        if ('literal' in part) {
+            result += skipSpace && part.literal.startsWith(' ') ? part.literal.slice(1) : part.literal;
+            skipSpace = false;
+            continue;
+        }
+
+        const value = values[part.token] ?? '';
+        if (value === '' && part.width === 0) {
+            skipSpace = true;
+            continue;
+        }
+
+        skipSpace = false;
+        // the message is styled by the caller already
+        const padded = pad(value, part.width, alignments[part.align]);
+        result += part.token === 'message' ? padded : style(part.token, padded);
+    }
+
+    return result;
+}
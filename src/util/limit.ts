@@ -0,0 +1,42 @@
+import { now } from './time.js';
+
+/**
+ * Token buckets by key: each bucket holds up to `burst` tokens and refills at `rate` tokens per second.
+ * Taking from an empty bucket fails, which lets bursts through but caps the average rate.
+ */
+export class TokenBuckets {
+    readonly rate: number;
+    readonly burst: number;
+    /** Buckets kept at most. The least recently used bucket is dropped to make room, which refills it. */
+    readonly maxKeys: number;
+
+    #buckets = new Map<string, { tokens: number; time: number }>();
+
+    constructor(rate: number, burst: number = rate, maxKeys: number = 1000) {
+        if (!(rate > 0) || !(burst >= 1)) {
+            throw new Error(`Invalid rate limit of ${rate} per second with a burst of ${burst}, expected a positive rate and a burst of at least 1.`);
+        }
+        this.rate = rate;
+        this.burst = burst;
+        this.maxKeys = maxKeys;
+    }
+
+    /** Takes a token from the bucket of `key`, returning false if there was none left. */
+    take(key: string): boolean {
+        const time = now();
+        const bucket = this.#buckets.get(key);
+        const tokens = bucket
+            ? Math.min(this.burst, bucket.tokens + (time - bucket.time) / 1000 * this.rate)
+            : this.burst;
+
+        // re-inserting keeps the map in order of use
+        this.#buckets.delete(key);
+        if (this.#buckets.size >= this.maxKeys) {
+            this.#buckets.delete(this.#buckets.keys().next().value!);
+        }
+
+        const allowed = tokens >= 1;
+        this.#buckets.set(key, { tokens: allowed ? tokens - 1 : tokens, time });
+        return allowed;
+    }
+}
@@ -0,0 +1,238 @@
+import { ANSI } from './ansi.js';
+import { hexToRgb } from './color.js';
+import { ansiToConsoleArgs } from './css.js';
+import { ansiToHtml, type AnsiHtmlOptions } from './html.js';
+
+/** Thrown for malformed markup and unknown style names, pointing at the offending position. */
+export class MarkupError extends Error {
+    position: number;
+
+    constructor(message: string, source: string, position: number) {
+        super(`${message} at position ${position} in markup "${source}"`);
+        this.name = 'MarkupError';
+        this.position = position;
+    }
+}
+
+/** A piece of parsed markup: plain text, or styles applied to nested nodes. */
+export type MarkupNode = string | MarkupElement;
+
+export type MarkupElement = {
+    /** Style names in the order they were written, e.g. `['red', 'bold']` for `{red.bold ...}`. */
+    styles: string[];
+    children: MarkupNode[];
+    /** Where the element starts in the source, for error messages. */
+    position: number;
+};
+
+export type MarkupOptions = {
+    /**
+     * Styles that can be referred to by name. Besides these, `#rgb`, `#rrggbb`, `rgb(r,g,b)` and their
+     * background variants `bg#rrggbb` and `bgRgb(r,g,b)` are always available.
+     */
+    styles?: Record<string, (text: string) => string>;
+};
+
+const NAME_RE = /[A-Za-z#][\w#.(),-]*/y;
+const ESCAPABLE = '\\{}<>';
+
+/**
+ * Parses markup into a tree of text and styled elements. Two notations are supported and can be mixed:
+ * - braces: `{red.bold text}`, with style names separated by dots and followed by a space
+ * - tags: `<red><b>text</b></red>`, where `</>` closes the innermost tag
+ *
+ * A brace or angle bracket that does not start a style, like in `{ id: 1 }` or `a < b`, is kept as text.
+ * Use a backslash to escape `\`, `{`, `}`, `<` and `>`.
+ * @throws {MarkupError} For unclosed or mismatched elements.
+ */
+export const parseMarkup = (source: string): MarkupNode[] => {
+    type Open = MarkupElement & { kind: '{' | '<'; tag?: string };
+    const root: MarkupNode[] = [];
+    const stack: Open[] = [];
+    let text = '';
+
+    const current = () => stack.length ? stack[stack.length - 1].children : root;
+    const flush = () => {
+        if (text) {
+            current().push(text);
+            text = '';
+        }
+    };
+    const open = (kind: Open['kind'], names: string, position: number) => {
+        flush();
+        const element: Open = { kind, styles: names.split('.'), children: [], position, tag: kind === '<' ? names : undefined };
+        if (element.styles.some(name => name === '')) {
+            throw new MarkupError(`Empty style name in "${names}"`, source, position);
+        }
+        current().push(element);
+        stack.push(element);
+    };
+    const close = () => {
+        flush();
+        // the bookkeeping properties are not part of the resulting tree
+        const element = stack.pop()!;
+        delete (element as Partial<Open>).kind;
+        delete (element as Partial<Open>).tag;
+    };
+    const nameAt = (index: number) => {
+        NAME_RE.lastIndex = index;
+        return NAME_RE.exec(source)?.[0];
+    };
+
+    let i = 0;
+    while (i < source.length) {
+        const char = source[i];
+
+        if (char === '\\' && ESCAPABLE.includes(source[i + 1] ?? '')) {
+            text += source[i + 1];
+            i += 2;
+            continue;
+        }
+
+        if (char === '{') {
+            const names = nameAt(i + 1);
+            if (names && source[i + 1 + names.length] === ' ') {
+                open('{', names, i);
+                i += names.length + 2;
+                continue;
+            }
+            if (names && source[i + 1 + names.length] === '}') {
+                throw new MarkupError(`Expected text after style "${names}"`, source, i);
+            }
+        }
+
+        if (char === '}' && stack.length && stack[stack.length - 1].kind === '{') {
+            close();
+            i++;
+            continue;
+        }
+
+        if (char === '<' && source[i + 1] === '/') {
+            const names = nameAt(i + 2) ?? '';
+            if (source[i + 2 + names.length] === '>') {
+                const top = stack[stack.length - 1];
+                if (!top || top.kind !== '<') {
+                    throw new MarkupError(`Unexpected closing tag </${names}>`, source, i);
+                }
+                if (names && names !== top.tag) {
+                    throw new MarkupError(`Expected </${top.tag}> but found </${names}>`, source, i);
+                }
+                close();
+                i += names.length + 3;
+                continue;
+            }
+        }
+
+        if (char === '<') {
+            const names = nameAt(i + 1);
+            if (names && source[i + 1 + names.length] === '>') {
+                open('<', names, i);
+                i += names.length + 2;
+                continue;
+            }
+        }
+
+        text += char;
+        i++;
+    }
+
+    if (stack.length) {
+        const unclosed = stack[stack.length - 1];
+        throw new MarkupError(
+            unclosed.kind === '{' ? `Unclosed "{${unclosed.styles.join('.')}"` : `Unclosed tag <${unclosed.tag}>`,
+            source,
+            unclosed.position,
+        );
+    }
+    flush();
+    return root;
+};
+
+const HEX_RE = /^(bg)?(#[0-9a-f]+)$/i;
+const RGB_RE = /^(rgb|bgRgb)\((\d{1,3}),(\d{1,3}),(\d{1,3})\)$/;
+
+/** Resolves the color notations that are available without registering them. */
+const colorStyle = (name: string): ((text: string) => string) | undefined => {
+    let background = false;
+    let channels: number[] | undefined;
+
+    const hex = HEX_RE.exec(name);
+    if (hex) {
+        background = !!hex[1];
+        channels = hexToRgb(hex[2]);
+    }
+
+    const rgb = RGB_RE.exec(name);
+    if (rgb) {
+        background = rgb[1] === 'bgRgb';
+        channels = [rgb[2], rgb[3], rgb[4]].map(Number);
+        if (channels.some(channel => channel > 255)) {
+            return undefined;
+        }
+    }
+
+    if (!channels) {
+        return undefined;
+    }
+    const [r, g, b] = channels;
+    const code = background ? ANSI.BG.RGB(r, g, b) : ANSI.FG.RGB(r, g, b);
+    return (text: string) => `${code}${text}${ANSI.STYLE.reset}`;
+};
+
+/**
+ * Looks up a style by name, falling back to the color notations that are available without registering them.
+ * @returns `undefined` for unknown names.
+ */
+export const resolveStyle = (name: string, styles: Record<string, (text: string) => string> = {}): ((text: string) => string) | undefined =>
+    Object.prototype.hasOwnProperty.call(styles, name) ? styles[name] : colorStyle(name);
+
+/** Re-opens a style after every reset inside the text it is applied to, except for a reset at the very end. */
+const reopen = (text: string, open: string) => {
+    const parts = text.split(ANSI.STYLE.reset);
+    return parts.reduce((result, part, i) =>
+        result + ANSI.STYLE.reset + (i === parts.length - 1 && part === '' ? '' : open) + part);
+};
+
+/** Stands in for the text when finding out which codes a style function opens with. */
+const MARKER = '\u0000';
+
+/**
+ * Renders markup to a string with ANSI escape sequences.
+ * Styles of enclosing elements are re-opened after a nested element resets them.
+ * @throws {MarkupError} For malformed markup and unknown style names.
+ * @example renderMarkup("{red.bold Error:} <u>disk full</u>", { styles: markupStyles })
+ */
+export const renderMarkup = (source: string, options: MarkupOptions = {}): string => {
+    const styles = options.styles ?? {};
+
+    const resolve = (name: string, position: number) => {
+        const style = resolveStyle(name, styles);
+        if (!style) {
+            throw new MarkupError(`Unknown style "${name}"`, source, position);
+        }
+        return style;
+    };
+
+    const render = (nodes: MarkupNode[]): string => nodes.map(node => {
+        if (typeof node === 'string') {
+            return node;
+        }
+        let text = render(node.children);
+        for (const name of [...node.styles].reverse()) {
+            const style = resolve(name, node.position);
+            const [open] = style(MARKER).split(MARKER);
+            text = style(open ? reopen(text, open) : text);
+        }
+        return text;
+    }).join('');
+
+    return render(parseMarkup(source));
+};
+
+/** Renders markup to arguments for `console.log` with `%c` directives, for browser DevTools. */
+export const markupToConsoleArgs = (source: string, options: MarkupOptions = {}): [string, ...string[]] =>
+    ansiToConsoleArgs(renderMarkup(source, options));
+
+/** Renders markup to HTML, with a `<span>` for every run of styled text, see {@link ansiToHtml}. */
+export const markupToHtml = (source: string, options: MarkupOptions & AnsiHtmlOptions = {}): string =>
+    ansiToHtml(renderMarkup(source, options), options);
@@ -0,0 +1,31 @@
+/**
+ * Loads a Node built-in module such as `node:fs` without a static import, so that browser builds never see it.
+ * Returns a getter for the module, which returns `undefined` where there is none, like in browsers.
+ *
+ * The module is loaded synchronously through `process.getBuiltinModule()` or `require()` where either exists.
+ * Older Node versions running ES modules have neither, there the module is imported in the background and
+ * the getter returns `undefined` until it has loaded.
+ */
+export const builtinModule = <T>(name: string): (() => T | undefined) => {
+    if (typeof process === 'undefined' || !process.versions?.node) {
+        return () => undefined;
+    }
+
+    let loaded: T | undefined;
+    try {
+        if (typeof process.getBuiltinModule === 'function') {
+            loaded = process.getBuiltinModule(name) as T | undefined;
+        } else if (typeof require === 'function') {
+            loaded = require(name) as T;
+        }
+    } catch {
+        // left undefined, like outside of Node
+    }
+
+    if (loaded === undefined && typeof process.getBuiltinModule !== 'function') {
+        // a variable specifier keeps bundlers for the browser from trying to resolve the module
+        import(name).then(module => loaded = module as T, () => {});
+    }
+
+    return () => loaded;
+};
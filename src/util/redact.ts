@@ -0,0 +1,152 @@
+/** A regex rule for free text. Every match is replaced by `replace`, which defaults to the censor string. */
+export type RedactionRule = {
+    pattern: RegExp;
+    replace?: string | ((match: string) => string);
+};
+
+export type RedactionOptions = {
+    /**
+     * Keys whose values are censored, given as dotted paths. A path matches the end of a key path,
+     * so `password` matches a `password` key at any depth and `headers.authorization` matches `req.headers.authorization`.
+     * `*` matches any single key. Keys are compared case-insensitively.
+     */
+    paths?: string[];
+    /** Regex rules applied to all text, or names of {@link redactionPresets}. */
+    patterns?: (RegExp | RedactionRule | keyof typeof redactionPresets)[];
+    /**
+     * Called for every value inside arguments and fields, after `paths` were applied.
+     * Whatever it returns replaces the value.
+     */
+    replacer?: (value: unknown, path: readonly string[]) => unknown;
+    /** Replacement for censored values and text matches. Defaults to `[REDACTED]`. */
+    censor?: string;
+};
+
+/** Luhn checksum, so that only plausible card numbers are censored and not any long number. */
+const isLuhnValid = (digits: string) => {
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) {
+                digit -= 9;
+            }
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+}
+
+/** Built-in rules that can be referred to by name in `patterns`. */
+export const redactionPresets = {
+    jwt: { pattern: /\beyJ[\w-]*\.[\w-]+\.[\w-]*/g },
+    bearer: { pattern: /\b(Bearer|Basic)\s+[\w\-.~+/]+=*/gi, replace: (match: string) => `${match.split(/\s+/)[0]} [REDACTED]` },
+    creditCard: {
+        pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+        replace: (match: string) => isLuhnValid(match.replace(/\D/g, '')) ? '[REDACTED]' : match,
+    },
+    email: { pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+} satisfies Record<string, RedactionRule>;
+
+export type Redactor = {
+    /** Censors text with the regex rules. */
+    text(text: string): string;
+    /** Returns a redacted copy of a value, leaving the original untouched. */
+    value<T>(value: T, path?: readonly string[]): T;
+};
+
+const isPlainObject = (value: object) => {
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+}
+
+/** Compiles redaction options into a {@link Redactor}. */
+export const createRedactor = (options: RedactionOptions): Redactor => {
+    const censor = options.censor ?? '[REDACTED]';
+    const paths = (options.paths ?? []).map(path => path.toLowerCase().split('.'));
+    const rules: RedactionRule[] = (options.patterns ?? []).map(rule =>
+        typeof rule === 'string' ? redactionPresets[rule] : rule instanceof RegExp ? { pattern: rule } : rule
+    );
+
+    const matchesPath = (path: readonly string[]) => paths.some(pattern => {
+        if (pattern.length > path.length) {
+            return false;
+        }
+        const offset = path.length - pattern.length;
+        return pattern.every((segment, i) => segment === '*' || segment === path[offset + i].toLowerCase());
+    });
+
+    const text = (input: string) => {
+        let output = input;
+        for (const { pattern, replace } of rules) {
+            // a non-global regex would only replace its first match
+            const re = pattern.global ? pattern : new RegExp(pattern.source, pattern.flags + 'g');
+            re.lastIndex = 0;
+            output = typeof replace === 'function'
+                ? output.replace(re, match => replace(match))
+                : output.replace(re, replace ?? censor);
+        }
+        return output;
+    };
+
+    const redact = (value: unknown, path: readonly string[], seen: WeakSet<object>): unknown => {
+        if (path.length > 0 && matchesPath(path)) {
+            value = censor;
+        } else if (typeof value === 'string') {
+            value = text(value);
+        } else if (typeof value === 'object' && value !== null && seen.has(value)) {
+            // the original would leak unredacted values through the cycle
+            value = '[Circular]';
+        } else if (typeof value === 'object' && value !== null) {
+            const original = value;
+            seen.add(original);
+            if (Array.isArray(value)) {
+                value = value.map((item, i) => redact(item, [...path, String(i)], seen));
+            } else if (value instanceof Map) {
+                // object keys are printed too, so they are redacted like values
+                value = new Map([...value].map(([key, item]) => [
+                    typeof key === 'object' && key !== null || typeof key === 'string' ? redact(key, path, seen) : key,
+                    redact(item, [...path, String(key)], seen),
+                ]));
+            } else if (value instanceof Set) {
+                value = new Set([...value].map((item, i) => redact(item, [...path, String(i)], seen)));
+            } else if (value instanceof Error || isPlainObject(value)) {
+                // errors keep their prototype, so that they are still rendered as errors
+                const copy = Object.create(Object.getPrototypeOf(value));
+                for (const key of Object.getOwnPropertyNames(value)) {
+                    copy[key] = redact((value as any)[key], [...path, key], seen);
+                }
+                value = copy;
+            } else if (!ArrayBuffer.isView(value) && Object.keys(value).length > 0) {
+                // class instances are inspected and serialized by their own enumerable keys,
+                // the copy keeps the prototype so that they are still shown with their class name
+                const copy = Object.create(Object.getPrototypeOf(value));
+                for (const key of Object.keys(value)) {
+                    copy[key] = redact((value as any)[key], [...path, key], seen);
+                }
+                value = copy;
+            }
+            seen.delete(original);
+        }
+
+        return options.replacer ? options.replacer(value, path) : value;
+    };
+
+    return {
+        text,
+        value: <T>(value: T, path: readonly string[] = []) => redact(value, path, new WeakSet()) as T,
+    };
+}
+
+const redactors = new WeakMap<RedactionOptions, Redactor>();
+
+/** Like {@link createRedactor}, but compiles the same options object only once. */
+export const getRedactor = (options: RedactionOptions): Redactor => {
+    let redactor = redactors.get(options);
+    if (!redactor) {
+        redactor = createRedactor(options);
+        redactors.set(options, redactor);
+    }
+    return redactor;
+}
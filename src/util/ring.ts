@@ -0,0 +1,41 @@
+/** A queue of fixed capacity that drops its oldest item whenever a new one does not fit. */
+export class RingBuffer<T> {
+    readonly capacity: number;
+
+    #items: T[] = [];
+    #start = 0;
+
+    constructor(capacity: number) {
+        if (!Number.isInteger(capacity) || capacity < 1) {
+            throw new Error(`Invalid ring buffer capacity ${capacity}, expected a positive integer.`);
+        }
+        this.capacity = capacity;
+    }
+
+    get length(): number {
+        return this.#items.length;
+    }
+
+    /** Adds an item at the end, returning the item it pushed out if the buffer was full. */
+    push(item: T): T | undefined {
+        if (this.#items.length < this.capacity) {
+            this.#items.push(item);
+            return undefined;
+        }
+
+        const dropped = this.#items[this.#start];
+        this.#items[this.#start] = item;
+        this.#start = (this.#start + 1) % this.capacity;
+        return dropped;
+    }
+
+    /** The items from oldest to newest. */
+    toArray(): T[] {
+        return [...this.#items.slice(this.#start), ...this.#items.slice(0, this.#start)];
+    }
+
+    clear() {
+        this.#items = [];
+        this.#start = 0;
+    }
+}
@@ -0,0 +1,107 @@
+/**
+ * Converts a value into something `JSON.stringify` can always handle:
+ * circular references become `"[Circular]"`, BigInts become strings,
+ * and Errors become plain objects with their name, message, stack, cause and other own properties.
+ */
+export const toSerializable = (value: unknown, seen: WeakSet<object> = new WeakSet()): unknown => {
+    switch (typeof value) {
+        case 'bigint':
+            return value.toString();
+        case 'symbol':
+            return value.toString();
+        case 'function':
+            return `[Function: ${value.name || 'anonymous'}]`;
+        case 'undefined':
+            return undefined;
+        case 'number':
+            return Number.isFinite(value) ? value : String(value);
+    }
+
+    if (typeof value !== 'object' || value === null) {
+        return value;
+    }
+
+    if (seen.has(value)) {
+        return '[Circular]';
+    }
+
+    if (value instanceof Date) {
+        return Number.isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+    }
+
+    seen.add(value);
+    try {
+        if (value instanceof Error) {
+            const error: Record<string, unknown> = {
+                name: value.name,
+                message: value.message,
+                stack: value.stack,
+            };
+            if ('cause' in value && value.cause !== undefined) {
+                error.cause = toSerializable(value.cause, seen);
+            }
+            if (value instanceof AggregateError) {
+                error.errors = value.errors.map(child => toSerializable(child, seen));
+            }
+            for (const key of Object.keys(value)) {
+                if (!(key in error)) {
+                    error[key] = toSerializable((value as any)[key], seen);
+                }
+            }
+            return error;
+        }
+
+        if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+            return toSerializable((value as { toJSON: () => unknown }).toJSON(), seen);
+        }
+
+        if (Array.isArray(value)) {
+            return value.map(item => toSerializable(item, seen) ?? null);
+        }
+
+        if (value instanceof Map) {
+            return Object.fromEntries([...value].map(([key, item]) => [String(key), toSerializable(item, seen)]));
+        }
+
+        if (value instanceof Set) {
+            return [...value].map(item => toSerializable(item, seen));
+        }
+
+        const result: Record<string, unknown> = {};
+        for (const [key, item] of Object.entries(value)) {
+            result[key] = toSerializable(item, seen);
+        }
+        return result;
+    } finally {
+        // only ancestors count as circular, the same object may appear in several places
+        seen.delete(value);
+    }
+}
+
+/** Like `JSON.stringify`, but never throws on circular references, BigInts or Errors. */
+export const safeStringify = (value: unknown, space?: number): string =>
+    JSON.stringify(toSerializable(value), null, space) ?? 'null';
+
+const LOGFMT_KEY_RE = /[^\w.\-/]/g;
+
+/** Formats a single logfmt value, quoting it when it contains spaces, quotes, equal signs or control characters. */
+const logfmtValue = (value: unknown): string => {
+    const serializable = toSerializable(value);
+    const text = typeof serializable === 'string'
+        ? serializable
+        : serializable === undefined ? '' : JSON.stringify(serializable);
+
+    return text === '' || /[\s"=\\]|[\x00-\x1f]/.test(text)
+        ? JSON.stringify(text)
+        : text;
+}
+
+/**
+ * Serializes key/value pairs as a logfmt line, e.g. `level=info msg="Server started" port=8080`.
+ * Nested objects and arrays are written as JSON.
+ */
+export const toLogfmt = (pairs: Record<string, unknown>): string =>
+    Object.entries(pairs)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${key.replace(LOGFMT_KEY_RE, '_') || '_'}=${logfmtValue(value)}`)
+        .join(' ');
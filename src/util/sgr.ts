@@ -0,0 +1,198 @@
+/** A color as set by an SGR sequence: one of the 16 named colors, one of the 256 palette colors, or truecolor. */
+export type SgrColor =
+    | { type: '16'; index: number }
+    | { type: '256'; index: number }
+    | { type: 'rgb'; r: number; g: number; b: number };
+
+/** The text attributes in effect at a position in a string, after applying all SGR sequences before it. */
+export type SgrState = {
+    fg?: SgrColor;
+    bg?: SgrColor;
+    bold: boolean;
+    dim: boolean;
+    italic: boolean;
+    underline: boolean;
+    blink: boolean;
+    inverse: boolean;
+    hidden: boolean;
+    strikethrough: boolean;
+};
+
+/** A run of visible text that shares the same attributes and hyperlink. */
+export type AnsiSegment = {
+    text: string;
+    style: SgrState;
+    /** Target of the OSC 8 hyperlink the text belongs to, if any. */
+    link?: string;
+};
+
+/** Matches SGR sequences (group 1 holds the parameters) and OSC 8 hyperlinks (group 2 holds the URI). */
+export const ANSI_SEQUENCE_RE = /\x1b\[([0-9;]*)m|\x1b\]8;[^;\x07\x1b]*;([^\x07\x1b]*)(?:\x07|\x1b\\)/g;
+
+export const initialSgrState = (): SgrState => ({
+    bold: false,
+    dim: false,
+    italic: false,
+    underline: false,
+    blink: false,
+    inverse: false,
+    hidden: false,
+    strikethrough: false,
+});
+
+/**
+ * Applies the parameters of a single SGR sequence (the part between `ESC[` and `m`) to a state.
+ * Unknown parameters are ignored.
+ */
+export const applySgr = (state: SgrState, params: string): SgrState => {
+    const next = { ...state };
+    const codes = params === '' ? [0] : params.split(';').map(code => code === '' ? 0 : Number(code));
+
+    for (let i = 0; i < codes.length; i++) {
+        const code = codes[i];
+
+        // extended colors consume the parameters that follow
+        if (code === 38 || code === 48) {
+            let color: SgrColor | undefined;
+            if (codes[i + 1] === 5) {
+                color = { type: '256', index: codes[i + 2] ?? 0 };
+                i += 2;
+            } else if (codes[i + 1] === 2) {
+                color = { type: 'rgb', r: codes[i + 2] ?? 0, g: codes[i + 3] ?? 0, b: codes[i + 4] ?? 0 };
+                i += 4;
+            }
+            if (color) {
+                next[code === 38 ? 'fg' : 'bg'] = color;
+            }
+            continue;
+        }
+
+        if (code === 0) {
+            Object.assign(next, initialSgrState(), { fg: undefined, bg: undefined });
+        } else if (code === 1) {
+            next.bold = true;
+        } else if (code === 2) {
+            next.dim = true;
+        } else if (code === 3) {
+            next.italic = true;
+        } else if (code === 4) {
+            next.underline = true;
+        } else if (code === 5) {
+            next.blink = true;
+        } else if (code === 7) {
+            next.inverse = true;
+        } else if (code === 8) {
+            next.hidden = true;
+        } else if (code === 9) {
+            next.strikethrough = true;
+        } else if (code === 22) {
+            next.bold = false;
+            next.dim = false;
+        } else if (code === 23) {
+            next.italic = false;
+        } else if (code === 24) {
+            next.underline = false;
+        } else if (code === 25) {
+            next.blink = false;
+        } else if (code === 27) {
+            next.inverse = false;
+        } else if (code === 28) {
+            next.hidden = false;
+        } else if (code === 29) {
+            next.strikethrough = false;
+        } else if (code >= 30 && code <= 37) {
+            next.fg = { type: '16', index: code - 30 };
+        } else if (code === 39) {
+            next.fg = undefined;
+        } else if (code >= 40 && code <= 47) {
+            next.bg = { type: '16', index: code - 40 };
+        } else if (code === 49) {
+            next.bg = undefined;
+        } else if (code >= 90 && code <= 97) {
+            next.fg = { type: '16', index: code - 90 + 8 };
+        } else if (code >= 100 && code <= 107) {
+            next.bg = { type: '16', index: code - 100 + 8 };
+        }
+    }
+
+    return next;
+}
+
+/**
+ * Splits a string containing ANSI escape sequences into runs of visible text with the attributes in effect for each run.
+ * SGR sequences and OSC 8 hyperlinks are interpreted, other escape sequences are kept as text.
+ * @example
+ * parseAnsi(`${ANSI.FG.Red}red${ANSI.STYLE.reset} plain`)
+ * // → [{ text: 'red', style: { fg: { type: '16', index: 1 }, ... } }, { text: ' plain', style: { ... } }]
+ */
+export const parseAnsi = (text: string, state: SgrState = initialSgrState()): AnsiSegment[] => {
+    const segments: AnsiSegment[] = [];
+    let link: string | undefined;
+    let lastIndex = 0;
+
+    const push = (value: string) => {
+        if (value === '') {
+            return;
+        }
+        const previous = segments[segments.length - 1];
+        if (previous && previous.style === state && previous.link === link) {
+            previous.text += value;
+        } else {
+            segments.push({ text: value, style: state, link });
+        }
+    };
+
+    const re = new RegExp(ANSI_SEQUENCE_RE.source, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = re.exec(text)) !== null) {
+        push(text.slice(lastIndex, match.index));
+        if (match[1] !== undefined) {
+            state = applySgr(state, match[1]);
+        } else {
+            link = match[2] || undefined;
+        }
+        lastIndex = re.lastIndex;
+    }
+    push(text.slice(lastIndex));
+
+    return segments;
+}
+
+/** The 16 named colors, roughly as the xterm defaults. */
+export const PALETTE_16: readonly [number, number, number][] = [
+    [0, 0, 0], [205, 49, 49], [13, 188, 121], [229, 229, 16],
+    [36, 114, 200], [188, 63, 188], [17, 168, 205], [229, 229, 229],
+    [102, 102, 102], [241, 76, 76], [35, 209, 139], [245, 245, 67],
+    [59, 142, 234], [214, 112, 214], [41, 184, 219], [255, 255, 255],
+];
+
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+/** Converts an index of the 256 color palette to RGB. */
+export const color256ToRgb = (index: number): [number, number, number] => {
+    if (index < 16) {
+        return [...PALETTE_16[Math.max(0, index)]];
+    }
+
+    if (index < 232) {
+        const i = index - 16;
+        return [CUBE_LEVELS[Math.floor(i / 36)], CUBE_LEVELS[Math.floor(i / 6) % 6], CUBE_LEVELS[i % 6]];
+    }
+
+    const gray = 8 + (Math.min(index, 255) - 232) * 10;
+    return [gray, gray, gray];
+}
+
+export const sgrColorToRgb = (color: SgrColor): [number, number, number] => {
+    switch (color.type) {
+        case '16':
+            return [...PALETTE_16[color.index]];
+        case '256':
+            return color256ToRgb(color.index);
+        case 'rgb':
+            return [color.r, color.g, color.b];
+    }
+}
+
+export const sgrColorToHex = (color: SgrColor): string =>
+    '#' + sgrColorToRgb(color).map(channel => Math.max(0, Math.min(255, channel)).toString(16).padStart(2, '0')).join('');
@@ -0,0 +1,294 @@
+/** Matches CSI sequences (colors, cursor movement) and OSC 8 hyperlinks, which take up no space on screen. */
+const ESCAPE_RE = /\x1b\[[0-9;?]*[A-Za-z]|\x1b\]8;[^;\x07\x1b]*;[^\x07\x1b]*(?:\x07|\x1b\\)/g;
+
+const ZERO_WIDTH_RE = /^[\p{Mark}\u200b-\u200f\u2060-\u2064\ufeff\ufe00-\ufe0f]$/u;
+const EMOJI_RE = /^\p{Emoji_Presentation}$/u;
+const PICTOGRAPHIC_RE = /^\p{Extended_Pictographic}$/u;
+
+const RESET = '\x1b[0m';
+
+/** Code point ranges of East Asian wide and fullwidth characters. */
+const WIDE_RANGES: [number, number][] = [
+    [0x1100, 0x115f], [0x231a, 0x231b], [0x2329, 0x232a], [0x2e80, 0x303e], [0x3041, 0x33ff],
+    [0x3400, 0x4dbf], [0x4e00, 0x9fff], [0xa000, 0xa4cf], [0xa960, 0xa97f], [0xac00, 0xd7a3],
+    [0xf900, 0xfaff], [0xfe10, 0xfe19], [0xfe30, 0xfe6f], [0xff00, 0xff60], [0xffe0, 0xffe6],
+    [0x1f300, 0x1f64f], [0x1f900, 0x1f9ff], [0x20000, 0x3fffd],
+];
+
+/**
+ * Number of terminal columns a single character takes up:
+ * 0 for control characters and combining marks, 2 for emoji and East Asian wide characters, 1 otherwise.
+ */
+export const charWidth = (char: string): number => {
+    const code = char.codePointAt(0) ?? 0;
+    if (code < 0x20 || (code >= 0x7f && code < 0xa0) || ZERO_WIDTH_RE.test(char) || isSkinTone(code)) {
+        return 0;
+    }
+    if (EMOJI_RE.test(char) || WIDE_RANGES.some(([from, to]) => code >= from && code <= to)) {
+        return 2;
+    }
+    return 1;
+};
+
+const isSkinTone = (code: number) => code >= 0x1f3fb && code <= 0x1f3ff;
+const isRegionalIndicator = (code: number) => code >= 0x1f1e6 && code <= 0x1f1ff;
+
+/**
+ * A piece of styled text: either an escape sequence, or a character as it appears on screen
+ * together with any combining marks, modifiers and emoji joined to it.
+ */
+export type AnsiToken =
+    | { type: 'escape'; value: string }
+    | { type: 'char'; value: string; width: number };
+
+/** Splits text into escape sequences and visible characters. */
+export const tokenizeAnsi = (text: string): AnsiToken[] => {
+    const tokens: AnsiToken[] = [];
+    const re = new RegExp(ESCAPE_RE.source, 'g');
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = re.exec(text)) !== null) {
+        pushChars(tokens, text.slice(lastIndex, match.index));
+        tokens.push({ type: 'escape', value: match[0] });
+        lastIndex = re.lastIndex;
+    }
+    pushChars(tokens, text.slice(lastIndex));
+    return tokens;
+};
+
+const pushChars = (tokens: AnsiToken[], text: string) => {
+    const chars = [...text];
+    for (let i = 0; i < chars.length; i++) {
+        const first = chars[i];
+        const code = first.codePointAt(0)!;
+        let value = first;
+        let width = charWidth(first);
+
+        if (isRegionalIndicator(code) && i + 1 < chars.length && isRegionalIndicator(chars[i + 1].codePointAt(0)!)) {
+            // two regional indicators make up a flag
+            value += chars[++i];
+        }
+
+        while (i + 1 < chars.length) {
+            const next = chars[i + 1];
+            const nextCode = next.codePointAt(0)!;
+            if (nextCode === 0x200d && i + 2 < chars.length) {
+                // the second half of an emoji sequence like 👩‍💻
+                value += next + chars[i + 2];
+                i += 2;
+            } else if (nextCode !== 0x200d && (ZERO_WIDTH_RE.test(next) || isSkinTone(nextCode))) {
+                // VS16 asks for emoji presentation, e.g. "❤" + VS16 is drawn as a wide emoji
+                if (nextCode === 0xfe0f && width === 1 && PICTOGRAPHIC_RE.test(first)) {
+                    width = 2;
+                }
+                value += next;
+                i++;
+            } else {
+                break;
+            }
+        }
+
+        tokens.push({ type: 'char', value, width });
+    }
+};
+
+/** Removes ANSI escape sequences, leaving only the visible text. */
+export const stripAnsi = (text: string): string => text.replace(new RegExp(ESCAPE_RE.source, 'g'), '');
+
+/**
+ * Number of terminal columns a string takes up, ignoring escape sequences.
+ * Emoji sequences joined with zero-width joiners and flags made of two regional indicators count as one emoji.
+ * @example visibleLength(red("日本")) // → 4
+ */
+export const visibleLength = (text: string): number =>
+    tokenizeAnsi(text).reduce((width, token) => width + (token.type === 'char' ? token.width : 0), 0);
+
+/** Keeps track of the SGR sequences in effect, so that styles can be closed and re-opened. */
+const trackStyles = (active: string[], escape: string) => {
+    if (!escape.endsWith('m') || escape.startsWith('\x1b]')) {
+        return;
+    }
+    if (escape === RESET || escape === '\x1b[m') {
+        active.length = 0;
+    } else {
+        active.push(escape);
+    }
+};
+
+/**
+ * Cuts text by visible columns, keeping escape sequences intact. Styles in effect at `start` are re-opened,
+ * and a reset is added at the end if any style is still open. Wide characters that do not fit entirely are left out.
+ * @example sliceAnsi(red("hello"), 1, 3) // → red("el")
+ */
+export const sliceAnsi = (text: string, start: number, end: number = Infinity): string => {
+    const active: string[] = [];
+    let result = '';
+    let started = false;
+    let position = 0;
+
+    for (const token of tokenizeAnsi(text)) {
+        if (token.type === 'escape') {
+            if (started && position < end) {
+                result += token.value;
+            }
+            if (!started || position < end) {
+                trackStyles(active, token.value);
+            }
+            continue;
+        }
+
+        if (position >= start && position + token.width <= end) {
+            if (!started) {
+                result = active.join('');
+                started = true;
+            }
+            result += token.value;
+        }
+        position += token.width;
+        if (position >= end) {
+            break;
+        }
+    }
+
+    return started && active.length ? result + RESET : result;
+};
+
+export type TruncateOptions = {
+    /** Defaults to `…`. */
+    ellipsis?: string;
+    /** Where text is cut off. Defaults to `end`. */
+    position?: 'start' | 'middle' | 'end';
+};
+
+/**
+ * Shortens text to at most `width` visible columns, marking the cut with an ellipsis.
+ * @example truncate(bold("a long message"), 8) // → bold("a long ") + "…"
+ */
+export const truncate = (text: string, width: number, options: TruncateOptions = {}): string => {
+    const length = visibleLength(text);
+    if (length <= width) {
+        return text;
+    }
+
+    const ellipsis = options.ellipsis ?? '…';
+    const room = Math.max(0, width - visibleLength(ellipsis));
+    switch (options.position ?? 'end') {
+        case 'start':
+            return ellipsis + sliceAnsi(text, length - room);
+        case 'middle': {
+            const head = Math.ceil(room / 2);
+            return sliceAnsi(text, 0, head) + ellipsis + sliceAnsi(text, length - (room - head));
+        }
+        case 'end':
+            return sliceAnsi(text, 0, room) + ellipsis;
+    }
+};
+
+/** Pads the start of text up to a visible width, so that escape codes and wide characters do not throw off alignment. */
+export const padStart = (text: string, width: number, fill: string = ' '): string =>
+    fill.repeat(Math.max(0, width - visibleLength(text))) + text;
+
+/** Pads the end of text up to a visible width, so that escape codes and wide characters do not throw off alignment. */
+export const padEnd = (text: string, width: number, fill: string = ' '): string =>
+    text + fill.repeat(Math.max(0, width - visibleLength(text)));
+
+export type Alignment = 'left' | 'center' | 'right';
+
+/** Pads text to a visible width on the side or sides that `align` leaves free. */
+export const pad = (text: string, width: number, align: Alignment = 'left'): string => {
+    if (align === 'right') {
+        return padStart(text, width);
+    }
+    if (align === 'center') {
+        return padEnd(padStart(text, visibleLength(text) + Math.floor((width - visibleLength(text)) / 2)), width);
+    }
+    return padEnd(text, width);
+};
+
+export type WrapOptions = {
+    /** Indentation of every line after the first, as a number of spaces or a string. */
+    indent?: number | string;
+    /** Whether words longer than a line are broken up. Defaults to `true`; otherwise they overflow. */
+    hard?: boolean;
+};
+
+/**
+ * Word-wraps text to a visible width. Styles open at the end of a line are closed
+ * and re-opened on the next one, so every line can be printed or cut on its own.
+ * @example wrap(red("one two three"), 7) // → red("one two") + "\n" + red("three")
+ */
+export const wrap = (text: string, width: number, options: WrapOptions = {}): string => {
+    const indent = typeof options.indent === 'number' ? ' '.repeat(options.indent) : options.indent ?? '';
+    const indentWidth = visibleLength(indent);
+    const hard = options.hard ?? true;
+
+    const lines: string[] = [];
+    const active: string[] = [];
+    let line = '';
+    let lineWidth = 0;
+    let lineEmpty = true;
+    // leading spaces are kept at the start of the text and after line breaks in it, but not on wrapped lines
+    let keepSpace = true;
+    let space = '';
+    let word: AnsiToken[] = [];
+    let wordWidth = 0;
+
+    const newline = (soft: boolean) => {
+        lines.push(line + (active.length ? RESET : ''));
+        line = indent + active.join('');
+        lineWidth = indentWidth;
+        lineEmpty = true;
+        keepSpace = !soft;
+    };
+
+    const place = (token: AnsiToken) => {
+        if (token.type === 'escape') {
+            line += token.value;
+            trackStyles(active, token.value);
+            return;
+        }
+        if (hard && !lineEmpty && lineWidth + token.width > width) {
+            newline(true);
+        }
+        line += token.value;
+        lineWidth += token.width;
+        lineEmpty = false;
+    };
+
+    const flushWord = () => {
+        if (wordWidth > 0 && !lineEmpty && lineWidth + space.length + wordWidth > width) {
+            newline(true);
+        } else if (wordWidth > 0 && (!lineEmpty || keepSpace)) {
+            line += space;
+            lineWidth += space.length;
+        }
+        word.forEach(place);
+        if (wordWidth > 0) {
+            space = '';
+        }
+        word = [];
+        wordWidth = 0;
+    };
+
+    for (const token of tokenizeAnsi(text)) {
+        if (token.type === 'char' && token.value === '\n') {
+            flushWord();
+            space = '';
+            newline(false);
+        } else if (token.type === 'char' && (token.value === ' ' || token.value === '\t')) {
+            if (word.length) {
+                flushWord();
+            }
+            space += ' ';
+        } else {
+            word.push(token);
+            if (token.type === 'char') {
+                wordWidth += token.width;
+            }
+        }
+    }
+    flushWord();
+    lines.push(line);
+
+    return lines.join('\n');
+};
@@ -0,0 +1,50 @@
+/** Tokens understood by {@link formatTimestamp}, with the number of digits each one expands to. */
+export const timestampTokens = {
+    'YYYY': 4,
+    'MM': 2,
+    'DD': 2,
+    'HH': 2,
+    'mm': 2,
+    'ss': 2,
+    'SSS': 3,
+} as const;
+
+/**
+ * Replaces the tokens `YYYY`, `MM`, `DD`, `HH`, `mm`, `ss` and `SSS` in a format string with the parts of a date.
+ * @param utc Uses UTC instead of local time.
+ * @example formatTimestamp('YYYY-MM-DD', new Date(2024, 0, 31)) // → "2024-01-31"
+ */
+export const formatTimestamp = (format: string, date: Date = new Date(), utc = false): string => {
+    const replacements: Record<keyof typeof timestampTokens, string> = {
+        'YYYY': String(utc ? date.getUTCFullYear() : date.getFullYear()),
+        'MM': String((utc ? date.getUTCMonth() : date.getMonth()) + 1).padStart(2, '0'),
+        'DD': String(utc ? date.getUTCDate() : date.getDate()).padStart(2, '0'),
+        'HH': String(utc ? date.getUTCHours() : date.getHours()).padStart(2, '0'),
+        'mm': String(utc ? date.getUTCMinutes() : date.getMinutes()).padStart(2, '0'),
+        'ss': String(utc ? date.getUTCSeconds() : date.getSeconds()).padStart(2, '0'),
+        'SSS': String(utc ? date.getUTCMilliseconds() : date.getMilliseconds()).padStart(3, '0'),
+    };
+
+    return Object.entries(replacements).reduce(
+        (ts, [token, value]) => ts.replaceAll(token, value),
+        format
+    );
+}
+
+/** Formats a duration in milliseconds as `+1.234s`. */
+export const formatElapsed = (ms: number): string => `+${(ms / 1000).toFixed(3)}s`;
+
+/** Milliseconds with sub-millisecond precision where `performance.now()` is available. */
+export const now = (): number =>
+    typeof performance !== 'undefined' && typeof performance.now === 'function' ? performance.now() : Date.now();
+
+/** Formats a duration in milliseconds for humans, e.g. `12.345ms`, `1.234s` or `2m 3.456s`. */
+export const formatDuration = (ms: number): string => {
+    if (ms < 1000) {
+        return `${ms.toFixed(3)}ms`;
+    }
+    if (ms < 60000) {
+        return `${(ms / 1000).toFixed(3)}s`;
+    }
+    return `${Math.floor(ms / 60000)}m ${((ms % 60000) / 1000).toFixed(3)}s`;
+}